@@ -0,0 +1,553 @@
+import fs from "fs";
+import path from "path";
+import { once } from "events";
+import type { Readable, Writable } from "stream";
+import { parseArgs } from "util";
+import fg from "fast-glob";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { convertXmlToHtml, createHtmlDocument, formatHtml, type ConvertOptions } from "@shared/xml-converter";
+import { setXmlEnvironment } from "@shared/xml-environment";
+import { xmldomEnvironment } from "@shared/xmldom-environment";
+import { XmlParseError } from "@shared/xml-errors";
+import { mappingRuleSchema, type MappingRule } from "@shared/schema";
+import { transformXmlToHtml } from "@shared/xslt";
+import { PREFIX_MODES, type PrefixMode } from "@shared/xml-namespaces";
+import { RENDER_MODES, type RenderMode } from "@shared/render-mode";
+import { CDATA_MODES, COMMENT_MODES, type CdataMode, type CommentMode } from "@shared/content-nodes";
+import { StreamConverter } from "@shared/stream-converter";
+
+const USAGE = `Usage: xml2html [options] [files or globs...]
+
+Converts XML to HTML using the same engine as the web app.
+Reads from stdin and writes to stdout when no input is given.
+
+Examples:
+  xml2html input.xml -o out.html
+  xml2html 'docs/**/*.xml' --out-dir build/
+  cat input.xml | xml2html --pretty > out.html
+
+Options:
+  -o, --output <file>    Write the result to <file> (single input only)
+  -d, --out-dir <dir>    Write one .html file per input into <dir>
+  -p, --pretty           Format the generated HTML
+      --fragment         Write only the converted markup, not a complete
+                         HTML document
+      --trusted-html     Pass HTML embedded in the source through unsanitized
+  -r, --rules <file>     Apply mapping rules from a JSON file, either an array
+                         of rules or a saved profile ({ "name", "rules" })
+      --prefixes <mode>  Show namespace prefixes in table headers and
+                         attribute names: strip (default), keep or label
+  -i, --interactive      Make tables sortable, filterable and paginated
+  -m, --mode <mode>      Render as auto (default), table, semantic, tree or raw
+      --table-path <p>   Row element name or path for table mode, e.g. //item
+      --cdata <mode>     Write CDATA sections as text (default) or html
+      --comments <mode>  Write comments and processing instructions: drop
+                         (default), html (as HTML comments) or visible
+      --explain          Print why each document was rendered the way it was
+      --source-map       Mark output elements with the path of the XML
+                         element or attribute they came from (data-xml-path)
+  -s, --stream           Convert tables and feeds while reading, writing rows
+                         as they are rendered; for files too large to load
+  -x, --xslt <file>      Render with an XSLT 1.0 stylesheet instead
+      --xslt-pi          Render with the stylesheet named by each document's
+                         <?xml-stylesheet?> instruction
+  -w, --watch            Re-convert inputs when they change, and convert new
+                         files matching the globs
+  -h, --help             Show this help
+`;
+
+// Exit codes
+const EXIT_CONVERSION_FAILED = 1;
+const EXIT_USAGE = 2;
+
+interface CliOptions {
+  output?: string;
+  outDir?: string;
+  pretty: boolean;
+  /** Write the converted markup without the document around it */
+  fragment: boolean;
+  trustedHtml: boolean;
+  mappingRules?: MappingRule[];
+  prefixMode?: PrefixMode;
+  interactiveTables: boolean;
+  renderMode?: RenderMode;
+  tablePath?: string;
+  cdataMode?: CdataMode;
+  commentMode?: CommentMode;
+  sourceMap: boolean;
+  explain: boolean;
+  stream: boolean;
+  /** Stylesheet source, or "" to use the document's <?xml-stylesheet?> */
+  xslt?: string;
+}
+
+function fail(message: string, code = EXIT_USAGE): never {
+  process.stderr.write(`xml2html: ${message}\n`);
+  process.exit(code);
+}
+
+/**
+ * Formats a conversion error, compiler style for parse errors:
+ * "file:line:column: message" followed by the source excerpt
+ */
+function describeError(source: string, error: unknown): string {
+  if (error instanceof XmlParseError && error.line > 0) {
+    const excerpt = error.excerpt ? `\n${error.excerpt}` : "";
+    return `${source}:${error.line}:${error.column}: ${error.message}${excerpt}`;
+  }
+  return `${source}: ${error instanceof Error ? error.message : error}`;
+}
+
+/**
+ * Returns the static directory prefix of a glob, used to mirror the input
+ * folder structure under --out-dir
+ */
+function globBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const staticSegments: string[] = [];
+  for (const segment of segments) {
+    if (segment && fg.isDynamicPattern(segment)) break;
+    staticSegments.push(segment);
+  }
+
+  // A pattern without wildcards is a plain file path
+  if (staticSegments.length === segments.length) {
+    return path.dirname(pattern);
+  }
+  return staticSegments.join("/") || ".";
+}
+
+/**
+ * Expands the positional arguments into input files paired with the
+ * directory their output path is relative to
+ */
+async function resolveInputs(patterns: string[], reportMissing = true): Promise<{ file: string; base: string }[]> {
+  const inputs: { file: string; base: string }[] = [];
+  const seen = new Set<string>();
+
+  for (const pattern of patterns) {
+    const base = globBase(pattern);
+    const files = fg.isDynamicPattern(pattern)
+      ? await fg(pattern, { onlyFiles: true })
+      : [pattern];
+
+    if (files.length === 0 && reportMissing) {
+      process.stderr.write(`xml2html: no files match ${pattern}\n`);
+    }
+
+    for (const file of files.sort()) {
+      if (seen.has(file)) continue;
+      seen.add(file);
+      inputs.push({ file, base });
+    }
+  }
+
+  return inputs;
+}
+
+function toConvertOptions(options: CliOptions): ConvertOptions {
+  return {
+    trustedHtml: options.trustedHtml,
+    mappingRules: options.mappingRules,
+    prefixMode: options.prefixMode,
+    interactiveTables: options.interactiveTables,
+    renderMode: options.renderMode,
+    tablePath: options.tablePath,
+    cdataMode: options.cdataMode,
+    commentMode: options.commentMode,
+    sourceMap: options.sourceMap,
+  };
+}
+
+/**
+ * Converts XML to a standalone HTML document, the same the app downloads,
+ * or only the converted markup with --fragment
+ * @param sourcePath Path of the input, stylesheets it references are resolved against it
+ */
+async function convert(xml: string, options: CliOptions, sourcePath = "."): Promise<string> {
+  const convertOptions = toConvertOptions(options);
+  if (options.explain) {
+    convertOptions.onExplained = ({ renderer, reasons }) => {
+      const source = sourcePath === "." ? "stdin" : sourcePath;
+      process.stderr.write(`${source}: rendered as ${renderer}\n${reasons.map((reason) => `  - ${reason}\n`).join("")}`);
+    };
+  }
+
+  const html =
+    options.xslt !== undefined
+      ? await transformXmlToHtml(xml, {
+          stylesheet: options.xslt,
+          trustedHtml: options.trustedHtml,
+          resolveStylesheet: (href) =>
+            fs.promises.readFile(path.resolve(path.dirname(sourcePath), href), "utf8"),
+        })
+      : await convertXmlToHtml(xml, convertOptions);
+  const output = options.fragment ? html : createHtmlDocument(html);
+  return options.pretty ? formatHtml(output) : output;
+}
+
+/**
+ * Converts a document while it is read, writing the rendered rows as each
+ * chunk is parsed so memory use does not grow with the input
+ */
+async function convertStream(input: Readable, output: Writable, options: CliOptions): Promise<void> {
+  let html = "";
+  const append = (part: string) => {
+    html += part;
+  };
+  const converter = new StreamConverter({ start: append, row: append, end: append }, toConvertOptions(options));
+
+  const flush = async () => {
+    if (html && !output.write(html)) await once(output, "drain");
+    html = "";
+  };
+
+  // The rows go into the body of the same document convert writes
+  const documentHtml = options.fragment ? "" : createHtmlDocument("");
+  const bodyEnd = documentHtml.lastIndexOf("</body>");
+  append(documentHtml.slice(0, bodyEnd));
+
+  input.setEncoding("utf8");
+  for await (const chunk of input) {
+    converter.write(chunk as string);
+    await flush();
+  }
+  converter.close();
+  append(documentHtml.slice(bodyEnd));
+  await flush();
+}
+
+function outputPathFor(input: { file: string; base: string }, options: CliOptions): string | undefined {
+  if (options.output) return options.output;
+  if (!options.outDir) return undefined;
+
+  const relative = path.relative(input.base, input.file);
+  const { dir, name } = path.parse(relative);
+  return path.join(options.outDir, dir, `${name}.html`);
+}
+
+/**
+ * Converts one input file, writing to its output path or stdout
+ * @returns Whether the conversion succeeded
+ */
+async function convertFile(input: { file: string; base: string }, options: CliOptions): Promise<boolean> {
+  if (options.stream) return streamFile(input, options);
+
+  try {
+    const xml = await fs.promises.readFile(input.file, "utf8");
+    const html = await convert(xml, options, input.file);
+    const outputPath = outputPathFor(input, options);
+
+    if (outputPath) {
+      await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.promises.writeFile(outputPath, html);
+      process.stderr.write(`${input.file} -> ${outputPath}\n`);
+    } else {
+      process.stdout.write(html);
+    }
+    return true;
+  } catch (error) {
+    process.stderr.write(`xml2html: ${describeError(input.file, error)}\n`);
+    return false;
+  }
+}
+
+/**
+ * Streams one input file to its output path or stdout
+ * @returns Whether the conversion succeeded
+ */
+async function streamFile(input: { file: string; base: string }, options: CliOptions): Promise<boolean> {
+  const outputPath = outputPathFor(input, options);
+  try {
+    if (!outputPath) {
+      await convertStream(fs.createReadStream(input.file), process.stdout, options);
+      return true;
+    }
+
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+    const output = fs.createWriteStream(outputPath);
+    try {
+      await convertStream(fs.createReadStream(input.file), output, options);
+    } finally {
+      output.end();
+      await once(output, "close");
+    }
+    process.stderr.write(`${input.file} -> ${outputPath}\n`);
+    return true;
+  } catch (error) {
+    // Do not leave half a document behind
+    if (outputPath) await fs.promises.rm(outputPath, { force: true });
+    process.stderr.write(`xml2html: ${describeError(input.file, error)}\n`);
+    return false;
+  }
+}
+
+const rulesFileSchema = z.union([
+  z.array(mappingRuleSchema),
+  z.object({ rules: z.array(mappingRuleSchema) }).transform((profile) => profile.rules),
+]);
+
+async function readRules(file: string): Promise<MappingRule[]> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.promises.readFile(file, "utf8"));
+  } catch (error) {
+    fail(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = rulesFileSchema.safeParse(json);
+  if (!parsed.success) {
+    fail(`${file}: ${fromZodError(parsed.error).message}`);
+  }
+  return parsed.data;
+}
+
+async function readStylesheet(file: string): Promise<string> {
+  try {
+    return await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    fail(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function modifiedTime(file: string): Promise<number | null> {
+  try {
+    return (await fs.promises.stat(file)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Watches the directories the patterns start from. On each change the
+ * patterns are resolved again and new or modified files are converted, so
+ * files added later are picked up and editors that save by replacing the
+ * file do not end the watch. Runs until the process is interrupted.
+ */
+async function watchInputs(
+  patterns: string[],
+  inputs: { file: string; base: string }[],
+  options: CliOptions,
+): Promise<void> {
+  const converted = new Map<string, number | null>();
+  for (const input of inputs) {
+    converted.set(input.file, await modifiedTime(input.file));
+  }
+
+  // Each directory gets its own watcher, recursive watching misses renames on Linux
+  const watchers = new Map<string, fs.FSWatcher>();
+  const watchTree = async (directory: string, recursive: boolean): Promise<void> => {
+    if (!watchers.has(directory)) {
+      try {
+        const watcher = fs.watch(directory, schedule);
+        watcher.on("error", () => {
+          watcher.close();
+          watchers.delete(directory);
+        });
+        watchers.set(directory, watcher);
+      } catch {
+        // Not created yet, picked up by a later rescan
+        return;
+      }
+    }
+    if (!recursive) return;
+
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      // Globs skip hidden folders unless they name them
+      if (entry.isDirectory() && !entry.name.startsWith(".")) {
+        await watchTree(path.join(directory, entry.name), true);
+      }
+    }
+  };
+
+  const directories = new Map<string, boolean>();
+  for (const pattern of patterns) {
+    const directory = globBase(pattern);
+    directories.set(directory, fg.isDynamicPattern(pattern) || (directories.get(directory) ?? false));
+  }
+  const watchAll = async () => {
+    for (const [directory, recursive] of Array.from(directories)) {
+      await watchTree(directory, recursive);
+    }
+  };
+
+  const rescan = async () => {
+    await watchAll();
+    for (const input of await resolveInputs(patterns, false)) {
+      const mtime = await modifiedTime(input.file);
+      if (mtime === null || converted.get(input.file) === mtime) continue;
+      converted.set(input.file, mtime);
+      await convertFile(input, options);
+    }
+  };
+
+  // Editors often emit several events per save, so debounce them. Rescans
+  // run one after the other.
+  let running = Promise.resolve();
+  let timer: NodeJS.Timeout | undefined;
+  function schedule() {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      running = running.then(rescan);
+    }, 100);
+  }
+
+  await watchAll();
+  process.stderr.write(`Watching ${inputs.length} file(s) for changes...\n`);
+}
+
+async function main(): Promise<void> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        output: { type: "string", short: "o" },
+        "out-dir": { type: "string", short: "d" },
+        pretty: { type: "boolean", short: "p", default: false },
+        fragment: { type: "boolean", default: false },
+        "trusted-html": { type: "boolean", default: false },
+        rules: { type: "string", short: "r" },
+        prefixes: { type: "string" },
+        interactive: { type: "boolean", short: "i", default: false },
+        mode: { type: "string", short: "m" },
+        "table-path": { type: "string" },
+        cdata: { type: "string" },
+        comments: { type: "string" },
+        "source-map": { type: "boolean", default: false },
+        explain: { type: "boolean", default: false },
+        stream: { type: "boolean", short: "s", default: false },
+        xslt: { type: "string", short: "x" },
+        "xslt-pi": { type: "boolean", default: false },
+        watch: { type: "boolean", short: "w", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    fail(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const prefixMode = values.prefixes as PrefixMode | undefined;
+  if (prefixMode && !PREFIX_MODES.includes(prefixMode)) {
+    fail(`--prefixes must be one of ${PREFIX_MODES.join(", ")}`);
+  }
+
+  const renderMode = values.mode as RenderMode | undefined;
+  if (renderMode && !RENDER_MODES.includes(renderMode)) {
+    fail(`--mode must be one of ${RENDER_MODES.join(", ")}`);
+  }
+
+  const cdataMode = values.cdata as CdataMode | undefined;
+  if (cdataMode && !CDATA_MODES.includes(cdataMode)) {
+    fail(`--cdata must be one of ${CDATA_MODES.join(", ")}`);
+  }
+
+  const commentMode = values.comments as CommentMode | undefined;
+  if (commentMode && !COMMENT_MODES.includes(commentMode)) {
+    fail(`--comments must be one of ${COMMENT_MODES.join(", ")}`);
+  }
+
+  const options: CliOptions = {
+    output: values.output,
+    outDir: values["out-dir"],
+    pretty: values.pretty ?? false,
+    fragment: values.fragment ?? false,
+    trustedHtml: values["trusted-html"] ?? false,
+    mappingRules: values.rules ? await readRules(values.rules) : undefined,
+    prefixMode,
+    interactiveTables: values.interactive ?? false,
+    renderMode,
+    tablePath: values["table-path"],
+    cdataMode,
+    commentMode,
+    sourceMap: values["source-map"] ?? false,
+    explain: values.explain ?? false,
+    stream: values.stream ?? false,
+    xslt: values.xslt ? await readStylesheet(values.xslt) : values["xslt-pi"] ? "" : undefined,
+  };
+
+  if (options.output && options.outDir) {
+    fail("--output and --out-dir cannot be used together");
+  }
+
+  if (options.stream) {
+    if (options.pretty || options.explain || options.sourceMap || options.xslt !== undefined || options.mappingRules) {
+      fail("--stream cannot be combined with --pretty, --explain, --source-map, --rules or XSLT");
+    }
+    if (renderMode && renderMode !== "auto" && renderMode !== "table") {
+      fail("--stream renders tables and feeds, --mode must be auto or table");
+    }
+  }
+
+  setXmlEnvironment(xmldomEnvironment);
+
+  // No inputs (or "-") means stdin to stdout/--output
+  if (positionals.length === 0 || (positionals.length === 1 && positionals[0] === "-")) {
+    if (values.watch) fail("--watch needs input files");
+
+    try {
+      if (options.stream) {
+        const output = options.output ? fs.createWriteStream(options.output) : process.stdout;
+        await convertStream(process.stdin, output, options);
+        if (output !== process.stdout) {
+          output.end();
+          await once(output, "close");
+        }
+        return;
+      }
+
+      const html = await convert(await readStdin(), options);
+      if (options.output) {
+        await fs.promises.writeFile(options.output, html);
+      } else {
+        process.stdout.write(html);
+      }
+    } catch (error) {
+      fail(describeError("stdin", error), EXIT_CONVERSION_FAILED);
+    }
+    return;
+  }
+
+  const inputs = await resolveInputs(positionals);
+  if (inputs.length === 0) {
+    fail("no input files", EXIT_CONVERSION_FAILED);
+  }
+  if (options.output && inputs.length > 1) {
+    fail("--output needs a single input, use --out-dir for several");
+  }
+
+  let failed = 0;
+  for (const input of inputs) {
+    if (!(await convertFile(input, options))) failed++;
+  }
+
+  if (values.watch) {
+    await watchInputs(positionals, inputs, options);
+    return;
+  }
+
+  if (failed > 0) {
+    process.stderr.write(`xml2html: ${failed} of ${inputs.length} file(s) failed\n`);
+    process.exitCode = EXIT_CONVERSION_FAILED;
+  }
+}
+
+main().catch((error: unknown) => {
+  fail(error instanceof Error ? error.message : String(error), EXIT_CONVERSION_FAILED);
+});
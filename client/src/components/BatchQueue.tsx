@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Clock, Download, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { createBatchZip, type BatchFile, type BatchItem, type BatchStatus } from "@/lib/batch";
+import {
+  ConversionCancelledError,
+  startConversion,
+  type ConversionJob,
+  type WorkerConvertOptions,
+} from "@/lib/conversion";
+import { XmlParseError } from "@shared/xml-errors";
+import FileSaver from "file-saver";
+
+interface BatchQueueProps {
+  files: BatchFile[];
+  /** Conversion options, read when each file starts */
+  options: WorkerConvertOptions;
+  onClear: () => void;
+}
+
+// Larger files are converted on their own, as a stream
+const MAX_BATCH_FILE_SIZE = 10 * 1024 * 1024;
+
+const STATUS_ICONS: Record<BatchStatus, JSX.Element> = {
+  queued: <Clock className="h-4 w-4 text-muted-foreground" />,
+  converting: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  done: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  error: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+function describeError(error: unknown): string {
+  if (error instanceof XmlParseError && error.line > 0) {
+    return `Line ${error.line}, column ${error.column}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Converts several files one after another in the conversion worker,
+ * showing each file's status, and packs the results into a ZIP
+ */
+export default function BatchQueue({ files, options, onClear }: BatchQueueProps) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const currentJob = useRef<ConversionJob | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    const queue: BatchItem[] = files.map((file) => ({ ...file, status: "queued" }));
+    const update = (index: number, changes: Partial<BatchItem>) => {
+      queue[index] = { ...queue[index], ...changes };
+      setItems([...queue]);
+    };
+
+    const run = async () => {
+      setItems([...queue]);
+      setIsRunning(true);
+
+      let stopped = false;
+      for (let index = 0; index < queue.length && !cancelled && !stopped; index++) {
+        const item = queue[index];
+        if (item.file.size > MAX_BATCH_FILE_SIZE) {
+          update(index, { status: "error", error: "Larger than 10MB, upload it on its own to convert it as a stream" });
+          continue;
+        }
+
+        update(index, { status: "converting" });
+        try {
+          const xml = await item.file.text();
+          currentJob.current = startConversion({ kind: "convert", xml, options: optionsRef.current });
+          const result = await currentJob.current.result;
+          update(index, { status: "done", html: result.formattedHtml });
+        } catch (error) {
+          if (error instanceof ConversionCancelledError) {
+            update(index, { status: "queued" });
+            stopped = true;
+          } else {
+            update(index, { status: "error", error: describeError(error) });
+          }
+        } finally {
+          currentJob.current = null;
+        }
+      }
+
+      // Files not reached stay queued and are listed as not converted
+      if (cancelled) return;
+      setIsRunning(false);
+
+      const converted = queue.filter((item) => item.status === "done").length;
+      const failed = queue.filter((item) => item.status === "error").length;
+      toast({
+        title: stopped ? "Batch conversion cancelled" : "Batch conversion finished",
+        description: `${converted} of ${queue.length} files converted${failed > 0 ? `, ${failed} failed` : ""}`,
+        variant: !stopped && converted === 0 ? "destructive" : "default",
+      });
+    };
+
+    void run();
+    return () => {
+      cancelled = true;
+      currentJob.current?.cancel();
+    };
+  }, [files]);
+
+  const handleCancel = () => {
+    currentJob.current?.cancel();
+  };
+
+  const handleDownload = async () => {
+    FileSaver.saveAs(await createBatchZip(items), "xml-html-batch.zip");
+  };
+
+  const finished = items.filter((item) => item.status === "done" || item.status === "error").length;
+  const converted = items.filter((item) => item.status === "done").length;
+  const failed = items.filter((item) => item.status === "error").length;
+
+  if (files.length === 0) {
+    return <p className="text-sm text-muted-foreground">No XML files found in the selection.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium">
+          {isRunning ? `Converting ${finished + 1} of ${items.length}` : `${converted} of ${items.length} converted`}
+          {failed > 0 && <span className="text-sm text-destructive ml-2">{failed} failed</span>}
+        </h3>
+        <div className="flex space-x-2">
+          {isRunning ? (
+            <Button variant="outline" size="sm" onClick={handleCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={onClear}>
+              Clear
+            </Button>
+          )}
+          <Button size="sm" onClick={handleDownload} disabled={isRunning || converted === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            ZIP
+          </Button>
+        </div>
+      </div>
+
+      <Progress value={items.length > 0 ? (finished / items.length) * 100 : 0} className="h-2" />
+
+      <ScrollArea className="h-64 rounded-md border">
+        <ul className="divide-y text-sm">
+          {items.map((item) => (
+            <li key={item.path} className="flex items-start gap-2 px-3 py-2">
+              <span className="mt-0.5">{STATUS_ICONS[item.status]}</span>
+              <div className="min-w-0">
+                <p className="font-mono truncate">{item.path}</p>
+                {item.error && <p className="text-xs text-destructive break-words">{item.error}</p>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -1,25 +1,43 @@
 import { useEffect, useRef } from "react";
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { html } from "@codemirror/lang-html";
+import { xml } from "@codemirror/lang-xml";
 import { Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { cn } from "@/lib/utils";
+import { baseExtensions } from "@/lib/codemirror";
 
 interface CodePreviewProps {
   code: string;
   language: "html" | "xml";
 }
 
+/**
+ * Read-only, highlighted view of generated code. Only the visible lines are
+ * rendered, so large outputs stay responsive.
+ */
 export default function CodePreview({ code, language }: CodePreviewProps) {
-  const codeRef = useRef<HTMLPreElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
-  // Highlight code when component mounts or code changes
   useEffect(() => {
-    if (codeRef.current && code) {
-      // @ts-ignore - Prism is globally available through CDN
-      Prism.highlightElement(codeRef.current);
-    }
-  }, [code]);
+    if (!containerRef.current || !code) return;
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: code,
+        extensions: [
+          baseExtensions(),
+          language === "html" ? html() : xml(),
+          EditorState.readOnly.of(true),
+          EditorView.theme({ ".cm-scroller": { maxHeight: "24rem" } }),
+        ],
+      }),
+    });
+    return () => view.destroy();
+  }, [code, language]);
 
   if (!code) return null;
 
@@ -33,20 +51,12 @@ export default function CodePreview({ code, language }: CodePreviewProps) {
 
   return (
     <div className="relative group">
-      <pre
-        ref={codeRef}
-        className={cn(
-          "line-numbers text-sm font-mono rounded-md p-4 overflow-x-auto max-h-96",
-          "bg-neutral-50 dark:bg-neutral-900"
-        )}
-      >
-        <code className={`language-${language}`}>{code}</code>
-      </pre>
+      <div ref={containerRef} className="rounded-md border overflow-hidden" />
       
       <Button
         variant="ghost"
         size="icon"
-        className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
+        className="absolute top-2 right-2 z-10 opacity-0 group-hover:opacity-100 transition-opacity"
         onClick={handleCopy}
         aria-label="Copy code"
       >
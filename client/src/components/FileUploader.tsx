@@ -1,17 +1,31 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { UploadCloud } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { collectXmlFiles, isBatchSelection, readDroppedFiles, type BatchFile } from "@/lib/batch";
 
 interface FileUploaderProps {
   onFileLoaded: (content: string) => void;
+  /** Receives files over the size limit unread, to be converted as a stream */
+  onLargeFile?: (file: File) => void;
+  /** Receives the XML files of a multi-file, folder or ZIP selection */
+  onFilesSelected?: (files: BatchFile[]) => void;
 }
 
-export default function FileUploader({ onFileLoaded }: FileUploaderProps) {
+// Larger files are not read into the editor
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export default function FileUploader({ onFileLoaded, onLargeFile, onFilesSelected }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // React does not know the non-standard attribute that makes this a folder picker
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(true);
@@ -21,18 +35,42 @@ export default function FileUploader({ onFileLoaded }: FileUploaderProps) {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
+    if (!onFilesSelected) {
+      if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+        processFile(e.dataTransfer.files[0]);
+      }
+      return;
     }
+    processSelection(await readDroppedFiles(e.dataTransfer));
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      processFile(e.target.files[0]);
+    const files = Array.from(e.target.files ?? []);
+    // Folder picks carry the path below the chosen folder
+    processSelection(files.map((file) => ({ path: file.webkitRelativePath || file.name, file })));
+    // Let the same selection be picked again
+    e.target.value = "";
+  };
+
+  const processSelection = async (files: { path: string; file: File }[]) => {
+    if (files.length === 0) return;
+    if (!onFilesSelected || !isBatchSelection(files)) {
+      processFile(files[0].file);
+      return;
+    }
+
+    try {
+      onFilesSelected(await collectXmlFiles(files));
+    } catch (error) {
+      toast({
+        title: "Error reading files",
+        description: error instanceof Error ? error.message : "There was a problem reading your files.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -47,8 +85,13 @@ export default function FileUploader({ onFileLoaded }: FileUploaderProps) {
       return;
     }
 
+    if (file.size > MAX_FILE_SIZE && onLargeFile) {
+      onLargeFile(file);
+      return;
+    }
+
     // Check file size (10MB max)
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_FILE_SIZE) {
       toast({
         title: "File too large",
         description: "Maximum file size is 10MB",
@@ -82,6 +125,10 @@ export default function FileUploader({ onFileLoaded }: FileUploaderProps) {
     }
   };
 
+  const handleBrowseFolderClick = () => {
+    folderInputRef.current?.click();
+  };
+
   return (
     <div
       className={cn(
@@ -98,26 +145,49 @@ export default function FileUploader({ onFileLoaded }: FileUploaderProps) {
       
       <h3 className="text-lg font-medium mb-2">Upload XML File</h3>
       <p className="text-muted-foreground mb-4 max-w-xs">
-        Drag and drop your XML file here, or click to browse
+        {onFilesSelected
+          ? "Drag and drop XML files, a folder or a ZIP archive here, or click to browse"
+          : "Drag and drop your XML file here, or click to browse"}
       </p>
       
       <input
         ref={fileInputRef}
         type="file"
-        accept=".xml,text/xml"
+        accept={onFilesSelected ? ".xml,text/xml,.zip,application/zip" : ".xml,text/xml"}
+        multiple={!!onFilesSelected}
         onChange={handleFileChange}
         className="hidden"
       />
+      {onFilesSelected && (
+        <input
+          ref={folderInputRef}
+          type="file"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      )}
       
-      <button
-        onClick={handleBrowseClick}
-        className="text-sm font-medium text-primary underline-offset-4 hover:underline"
-      >
-        Browse files
-      </button>
+      <div className="flex items-center space-x-4">
+        <button
+          onClick={handleBrowseClick}
+          className="text-sm font-medium text-primary underline-offset-4 hover:underline"
+        >
+          Browse files
+        </button>
+        {onFilesSelected && (
+          <button
+            onClick={handleBrowseFolderClick}
+            className="text-sm font-medium text-primary underline-offset-4 hover:underline"
+          >
+            Browse folder
+          </button>
+        )}
+      </div>
       
       <p className="text-xs text-muted-foreground mt-2">
-        XML files up to 10MB
+        {onLargeFile
+          ? "Files over 10MB are converted as they are read (tables and feeds only)"
+          : "XML files up to 10MB"}
       </p>
     </div>
   );
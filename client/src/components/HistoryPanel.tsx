@@ -0,0 +1,308 @@
+import { useState } from "react";
+import { GitCompare, History, Pencil, Pin, PinOff, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import XmlDiff from "./XmlDiff";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deleteHistoryEntry,
+  getStorageUsage,
+  listHistory,
+  loadHistoryXml,
+  updateHistoryEntry,
+  type HistoryEntry,
+  type HistorySettings,
+  type StorageUsage,
+} from "@/lib/history";
+
+interface HistoryPanelProps {
+  /** The XML in the editor, entries are compared with it */
+  currentXml: string;
+  onRestore: (xml: string, settings: HistorySettings) => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+/**
+ * Short summary of the options an entry was converted with
+ */
+function describeSettings(settings: HistorySettings): string {
+  if (settings.xslt !== undefined) return "XSLT";
+
+  const rules = settings.mappingRules?.length ?? 0;
+  return [
+    `${settings.renderMode ?? "auto"} mode`,
+    rules > 0 ? `${rules} ${rules === 1 ? "rule" : "rules"}` : "",
+    settings.interactiveTables ? "interactive" : "",
+    settings.trustedHtml ? "trusted HTML" : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Sidebar listing past conversions, stored in the browser. Entries can be
+ * restored into the editor, compared with it, pinned so they are never
+ * removed, renamed and deleted.
+ */
+export default function HistoryPanel({ currentXml, onRestore }: HistoryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [search, setSearch] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [comparing, setComparing] = useState<{ entry: HistoryEntry; xml: string } | null>(null);
+  const { toast } = useToast();
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const refresh = async () => {
+    try {
+      setEntries(await listHistory());
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      showError("Could not read the history", error);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) void refresh();
+  };
+
+  /**
+   * Loads an entry's XML, reporting entries removed in another tab
+   */
+  const loadXml = async (entry: HistoryEntry): Promise<string | null> => {
+    try {
+      const xml = await loadHistoryXml(entry.id);
+      if (xml === undefined) {
+        toast({ title: "Entry not found", description: "It was deleted in the meantime", variant: "destructive" });
+        void refresh();
+        return null;
+      }
+      return xml;
+    } catch (error) {
+      showError("Could not load the entry", error);
+      return null;
+    }
+  };
+
+  const handleRestore = async (entry: HistoryEntry) => {
+    const xml = await loadXml(entry);
+    if (xml === null) return;
+    onRestore(xml, entry.settings);
+    setOpen(false);
+    toast({ title: "Conversion restored", description: entry.title });
+  };
+
+  const handleCompare = async (entry: HistoryEntry) => {
+    const xml = await loadXml(entry);
+    if (xml === null) return;
+    setOpen(false);
+    setComparing({ entry, xml });
+  };
+
+  const handleUpdate = async (entry: HistoryEntry, changes: Partial<Pick<HistoryEntry, "title" | "pinned">>) => {
+    try {
+      await updateHistoryEntry(entry.id, changes);
+      await refresh();
+    } catch (error) {
+      showError("Could not update the entry", error);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const entry = entries.find((candidate) => candidate.id === renaming.id);
+    const title = renaming.title.trim();
+    setRenaming(null);
+    if (entry && title && title !== entry.title) {
+      await handleUpdate(entry, { title });
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      await refresh();
+    } catch (error) {
+      showError("Could not delete the entry", error);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleEntries = query
+    ? entries.filter(
+        (entry) =>
+          entry.title.toLowerCase().includes(query) ||
+          describeSettings(entry.settings).toLowerCase().includes(query),
+      )
+    : entries;
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={handleOpenChange}>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm">
+            <History className="h-4 w-4 mr-2" />
+            History
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="flex flex-col w-full sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>Conversion history</SheetTitle>
+            <SheetDescription>
+              Past conversions are kept in this browser. Pinned entries stay when older ones are removed.
+            </SheetDescription>
+          </SheetHeader>
+
+          <Input
+            placeholder="Search by title or settings..."
+            aria-label="Search history"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+
+          <ScrollArea className="flex-1 -mx-2">
+            {visibleEntries.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                {entries.length === 0 ? "Converted documents appear here" : "No entries match the search"}
+              </p>
+            ) : (
+              <ul className="space-y-2 px-2">
+                {visibleEntries.map((entry) => (
+                  <li key={entry.id} className="rounded-md border p-3 space-y-2">
+                    {renaming?.id === entry.id ? (
+                      <Input
+                        autoFocus
+                        className="h-8"
+                        aria-label="Entry name"
+                        value={renaming.title}
+                        onChange={(e) => setRenaming({ id: entry.id, title: e.target.value })}
+                        onBlur={() => setRenaming(null)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") void handleRename();
+                          if (e.key === "Escape") {
+                            // The sheet would close on Escape as well
+                            e.stopPropagation();
+                            setRenaming(null);
+                          }
+                        }}
+                      />
+                    ) : (
+                      <p className="text-sm font-medium break-words">
+                        {entry.pinned && <Pin className="inline h-3 w-3 mr-1 text-primary" />}
+                        {entry.title}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()} · {formatBytes(entry.size)} ·{" "}
+                      {describeSettings(entry.settings)}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      <Button size="sm" variant="secondary" className="h-7" onClick={() => handleRestore(entry)}>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Restore
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7"
+                        onClick={() => handleCompare(entry)}
+                        disabled={!currentXml.trim()}
+                        title="Compare with the XML in the editor"
+                      >
+                        <GitCompare className="h-3 w-3 mr-1" />
+                        Compare
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        onClick={() => handleUpdate(entry, { pinned: !entry.pinned })}
+                        aria-label={entry.pinned ? "Unpin" : "Pin"}
+                        title={entry.pinned ? "Unpin" : "Pin"}
+                      >
+                        {entry.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        onClick={() => setRenaming({ id: entry.id, title: entry.title })}
+                        aria-label="Rename"
+                        title="Rename"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-destructive"
+                        onClick={() => handleDelete(entry)}
+                        aria-label="Delete"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </ScrollArea>
+
+          {usage && (
+            <div className="space-y-1">
+              <Progress value={Math.min((usage.usage / usage.quota) * 100, 100)} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {formatBytes(usage.usage)} of {formatBytes(usage.quota)} browser storage used
+              </p>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <Dialog open={comparing !== null} onOpenChange={(next) => !next && setComparing(null)}>
+        <DialogContent className="max-w-6xl">
+          <DialogHeader>
+            <DialogTitle>Compare with the editor</DialogTitle>
+            <DialogDescription>
+              {comparing?.entry.title} on the left, the XML in the editor on the right
+            </DialogDescription>
+          </DialogHeader>
+          {comparing && <XmlDiff original={comparing.xml} modified={currentXml} className="h-[70vh]" />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
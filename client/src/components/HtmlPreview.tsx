@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from "react";
+import { ExternalLink, Monitor, Smartphone, Tablet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { escapeHtml } from "@shared/html-sanitizer";
+
+interface HtmlPreviewProps {
+  /** Complete HTML document, see createHtmlDocument */
+  htmlDocument: string;
+  /**
+   * Let the document run its scripts, needed for interactive tables and the
+   * tree view controls. The frame stays cross-origin, so scripts cannot
+   * reach the app.
+   */
+  allowScripts?: boolean;
+  /**
+   * Receives messages the document posts to its parent, with a function to
+   * post back to it. Needs allowScripts.
+   */
+  onFrameMessage?: (data: unknown, reply: (message: unknown) => void) => void;
+  /** Posted to the document when it changes and each time the document loads. Needs allowScripts. */
+  frameMessage?: unknown;
+}
+
+type Viewport = "mobile" | "tablet" | "desktop";
+
+// Viewport widths in CSS pixels, desktop fills the available space
+const VIEWPORT_WIDTHS: Record<Viewport, number | null> = {
+  mobile: 375,
+  tablet: 768,
+  desktop: null,
+};
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5];
+const PREVIEW_HEIGHT = 600;
+
+/**
+ * A page that only frames the document with the preview's sandbox. A blob
+ * URL has the app's origin, so the document itself must never be its
+ * content.
+ */
+function sandboxedPage(htmlDocument: string, sandbox: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Converted HTML</title>
+<style>html, body, iframe { margin: 0; width: 100%; height: 100%; border: 0; display: block; }</style>
+</head>
+<body><iframe sandbox="${sandbox}" srcdoc="${escapeHtml(htmlDocument)}"></iframe></body>
+</html>`;
+}
+
+/**
+ * Renders converted HTML in a sandboxed iframe so its styles cannot leak
+ * into the app and the app's styles cannot leak into it
+ */
+export default function HtmlPreview({
+  htmlDocument,
+  allowScripts = false,
+  onFrameMessage,
+  frameMessage,
+}: HtmlPreviewProps) {
+  const [viewport, setViewport] = useState<Viewport>("desktop");
+  const [zoom, setZoom] = useState(1);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const frameMessageRef = useRef(frameMessage);
+  frameMessageRef.current = frameMessage;
+
+  const postFrameMessage = () => {
+    if (frameMessageRef.current !== undefined) {
+      frameRef.current?.contentWindow?.postMessage(frameMessageRef.current, "*");
+    }
+  };
+
+  useEffect(postFrameMessage, [frameMessage]);
+
+  useEffect(() => {
+    if (!onFrameMessage) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const frameWindow = frameRef.current?.contentWindow;
+      // The sandboxed frame has an opaque origin, so it is told apart by its window
+      if (!frameWindow || event.source !== frameWindow) return;
+      onFrameMessage(event.data, (message) => frameWindow.postMessage(message, "*"));
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [onFrameMessage]);
+
+  const width = VIEWPORT_WIDTHS[viewport];
+  const sandbox = `allow-popups allow-popups-to-escape-sandbox${allowScripts ? " allow-scripts" : ""}`;
+
+  const handleOpenInNewTab = () => {
+    const page = sandboxedPage(htmlDocument, sandbox);
+    const url = URL.createObjectURL(new Blob([page], { type: "text/html;charset=utf-8" }));
+    window.open(url, "_blank", "noopener");
+    // Give the new tab time to load before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={viewport}
+          onValueChange={(value) => value && setViewport(value as Viewport)}
+          aria-label="Viewport size"
+        >
+          <ToggleGroupItem value="mobile" aria-label="Mobile">
+            <Smartphone className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="tablet" aria-label="Tablet">
+            <Tablet className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="desktop" aria-label="Desktop">
+            <Monitor className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="flex items-center space-x-2">
+          <Select value={String(zoom)} onValueChange={(value) => setZoom(Number(value))}>
+            <SelectTrigger className="h-9 w-24" aria-label="Zoom">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ZOOM_LEVELS.map((level) => (
+                <SelectItem key={level} value={String(level)}>
+                  {Math.round(level * 100)}%
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleOpenInNewTab}>
+            <ExternalLink className="h-4 w-4 mr-2" />
+            New tab
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-md bg-neutral-100 dark:bg-neutral-900 overflow-auto p-2">
+        {/* The wrapper takes the scaled size so the scroll area fits the zoomed frame */}
+        <div
+          className={cn("mx-auto", width === null && "w-full")}
+          style={{
+            width: width === null ? undefined : width * zoom,
+            height: PREVIEW_HEIGHT * zoom,
+          }}
+        >
+          {/* The sandbox only applies on load, so the frame is recreated when it changes */}
+          <iframe
+            key={String(allowScripts)}
+            ref={frameRef}
+            title="HTML preview"
+            srcDoc={htmlDocument}
+            onLoad={postFrameMessage}
+            sandbox={sandbox}
+            className="bg-white border-0 shadow-sm"
+            style={{
+              width: width === null ? `${100 / zoom}%` : width,
+              height: PREVIEW_HEIGHT,
+              transform: `scale(${zoom})`,
+              transformOrigin: "top left",
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import HtmlPreview from "./HtmlPreview";
+import CodePreview from "./CodePreview";
+import { createHtmlDocument } from "@shared/xml-converter";
+import { XmlParseError } from "@shared/xml-errors";
+import { transformXmlToHtml } from "@shared/xslt";
+import {
+  ConversionCancelledError,
+  startConversion,
+  type ConversionJob,
+  type ConversionResult,
+  type WorkerConvertOptions,
+} from "@/lib/conversion";
+import {
+  SOURCE_MAP_SCRIPT,
+  stripSourcePaths,
+  type SourceHighlightMessage,
+  type SourceSelectMessage,
+} from "@/lib/source-map";
+
+interface LivePreviewProps {
+  xml: string;
+  options: WorkerConvertOptions;
+  /** Stylesheet to render with instead, see transformXmlToHtml */
+  xslt?: string;
+  resolveStylesheet?: (href: string) => Promise<string>;
+  allowScripts?: boolean;
+  /**
+   * Called with the path of the XML behind an element clicked in the
+   * preview. Setting it maps the output to its source, except for XSLT.
+   */
+  onSelectSource?: (path: string) => void;
+  /** Path of the XML whose output is outlined, usually the one at the editor's cursor */
+  highlightPath?: string | null;
+}
+
+type LiveView = "rendered" | "source";
+
+// Conversion waits for a pause in typing
+const DEBOUNCE_MS = 500;
+
+function describeError(error: unknown): string {
+  if (error instanceof XmlParseError && error.line > 0) {
+    return `Invalid XML at line ${error.line}, column ${error.column}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Converts the XML as it is edited and shows the result, rendered or as
+ * source. While the XML is invalid the last good result stays visible.
+ */
+export default function LivePreview({
+  xml,
+  options,
+  xslt,
+  resolveStylesheet,
+  allowScripts,
+  onSelectSource,
+  highlightPath,
+}: LivePreviewProps) {
+  const [result, setResult] = useState<ConversionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+  const [view, setView] = useState<LiveView>("rendered");
+
+  const sourceMap = !!onSelectSource && xslt === undefined;
+  const convertOptions = { ...options, sourceMap };
+  // Options arrive as a new object on every render
+  const optionsKey = JSON.stringify(convertOptions);
+
+  useEffect(() => {
+    if (!xml.trim()) {
+      setResult(null);
+      setError(null);
+      setIsConverting(false);
+      return;
+    }
+
+    let cancelled = false;
+    let job: ConversionJob | null = null;
+    const timer = setTimeout(async () => {
+      setIsConverting(true);
+      try {
+        // XSLT needs the browser's XSLTProcessor, so only formatting runs in the worker
+        if (xslt !== undefined) {
+          const html = await transformXmlToHtml(xml, { stylesheet: xslt, resolveStylesheet, trustedHtml: options.trustedHtml });
+          if (cancelled) return;
+          job = startConversion({ kind: "format", html });
+        } else {
+          job = startConversion({ kind: "convert", xml, options: convertOptions });
+        }
+
+        const next = await job.result;
+        setResult(next);
+        setError(null);
+      } catch (err) {
+        if (!cancelled && !(err instanceof ConversionCancelledError)) {
+          setError(describeError(err));
+        }
+      } finally {
+        if (!cancelled) setIsConverting(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      job?.cancel();
+    };
+    // options is compared through optionsKey
+  }, [xml, optionsKey, xslt]);
+
+  const htmlDocument = useMemo(
+    () => (result ? createHtmlDocument(sourceMap ? SOURCE_MAP_SCRIPT + result.html : result.html) : ""),
+    [result, sourceMap],
+  );
+
+  const handleFrameMessage = useCallback(
+    (data: unknown) => {
+      const message = data as Partial<SourceSelectMessage> | null;
+      if (message?.type === "xml-source-select" && typeof message.path === "string") {
+        onSelectSource?.(message.path);
+      }
+    },
+    [onSelectSource],
+  );
+
+  const highlightMessage = useMemo<SourceHighlightMessage | undefined>(
+    () => (sourceMap ? { type: "xml-source-highlight", path: highlightPath ?? null } : undefined),
+    [sourceMap, highlightPath],
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={view}
+          onValueChange={(value) => value && setView(value as LiveView)}
+          aria-label="Preview view"
+        >
+          <ToggleGroupItem value="rendered">Rendered</ToggleGroupItem>
+          <ToggleGroupItem value="source">HTML source</ToggleGroupItem>
+        </ToggleGroup>
+        {isConverting && (
+          <span className="flex items-center text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Updating...
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-1 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>
+            {error}
+            {result && " (showing the last good render)"}
+          </span>
+        </p>
+      )}
+
+      {!result ? (
+        !error && (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            {xml.trim() ? "Converting..." : "The preview appears here as you type"}
+          </p>
+        )
+      ) : view === "rendered" ? (
+        <HtmlPreview
+          htmlDocument={htmlDocument}
+          allowScripts={allowScripts || sourceMap}
+          onFrameMessage={sourceMap ? handleFrameMessage : undefined}
+          frameMessage={highlightMessage}
+        />
+      ) : (
+        <CodePreview code={sourceMap ? stripSourcePaths(result.formattedHtml) : result.formattedHtml} language="html" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MappingProfile, MappingRule } from "@shared/schema";
+
+interface MappingRulesEditorProps {
+  rules: MappingRule[];
+  onChange: (rules: MappingRule[]) => void;
+}
+
+// Attribute renames are edited as "from=to, from2=to2"
+function formatRenames(attributes: Record<string, string> | undefined): string {
+  return Object.entries(attributes ?? {})
+    .map(([from, to]) => `${from}=${to}`)
+    .join(", ");
+}
+
+function parseRenames(value: string): Record<string, string> | undefined {
+  const entries = value
+    .split(",")
+    .map((pair) => pair.split("=").map((part) => part.trim()))
+    .filter(([from, to]) => from && to);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function parseClasses(value: string): string[] | undefined {
+  const classes = value.split(/\s+/).filter(Boolean);
+  return classes.length > 0 ? classes : undefined;
+}
+
+interface RuleRowProps {
+  rule: MappingRule;
+  onChange: (rule: MappingRule) => void;
+  onRemove: () => void;
+}
+
+function RuleRow({ rule, onChange, onRemove }: RuleRowProps) {
+  // Free-text fields are parsed on blur so partial input is not thrown away
+  const [classes, setClasses] = useState((rule.classes ?? []).join(" "));
+  const [renames, setRenames] = useState(formatRenames(rule.attributes));
+  const isMapped = rule.action === "map";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1.5fr_1.5fr_auto] gap-2 items-center">
+      <Input
+        placeholder="Element or path, e.g. book/title"
+        className="font-mono"
+        value={rule.match}
+        onChange={(e) => onChange({ ...rule, match: e.target.value })}
+        aria-label="Match"
+      />
+      <Select
+        value={rule.action}
+        onValueChange={(action) => onChange({ ...rule, action: action as MappingRule["action"] })}
+      >
+        <SelectTrigger aria-label="Action">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="map">Map</SelectItem>
+          <SelectItem value="unwrap">Unwrap</SelectItem>
+          <SelectItem value="drop">Drop</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder="HTML tag"
+        className="font-mono"
+        value={rule.tag ?? ""}
+        disabled={!isMapped}
+        onChange={(e) => onChange({ ...rule, tag: e.target.value || undefined })}
+        aria-label="HTML tag"
+      />
+      <Input
+        placeholder="Classes"
+        value={classes}
+        disabled={!isMapped}
+        onChange={(e) => setClasses(e.target.value)}
+        onBlur={() => onChange({ ...rule, classes: parseClasses(classes) })}
+        aria-label="Classes"
+      />
+      <Input
+        placeholder="Renames, e.g. url=href"
+        className="font-mono"
+        value={renames}
+        disabled={!isMapped}
+        onChange={(e) => setRenames(e.target.value)}
+        onBlur={() => onChange({ ...rule, attributes: parseRenames(renames) })}
+        aria-label="Attribute renames"
+      />
+      <Button variant="ghost" size="icon" onClick={onRemove} aria-label="Remove rule">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Edits the mapping rules used for semantic output and manages the named
+ * profiles they are saved under on the server
+ */
+export default function MappingRulesEditor({ rules, onChange }: MappingRulesEditorProps) {
+  const [profileName, setProfileName] = useState("");
+  // Rows keep draft text, so they are remounted when rules are replaced or removed
+  const [revision, setRevision] = useState(0);
+  const { toast } = useToast();
+
+  const { data: profiles = [] } = useQuery<MappingProfile[]>({
+    queryKey: ["/api/profiles"],
+  });
+
+  const saveProfile = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest("PUT", `/api/profiles/${encodeURIComponent(name)}`, {
+        rules: rules.filter((rule) => rule.match.trim()),
+      }),
+    onSuccess: (_res, name) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      toast({ title: "Profile saved", description: `Saved mapping profile "${name}"` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest("DELETE", `/api/profiles/${encodeURIComponent(name)}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      setProfileName("");
+    },
+  });
+
+  const handleLoadProfile = (name: string) => {
+    const profile = profiles.find((p) => p.name === name);
+    if (profile) {
+      setProfileName(profile.name);
+      setRevision((r) => r + 1);
+      onChange(profile.rules);
+    }
+  };
+
+  const handleRuleChange = (index: number, rule: MappingRule) => {
+    onChange(rules.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const handleAddRule = () => {
+    onChange([...rules, { match: "", action: "map" }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label>Load profile</Label>
+          <Select
+            value={profiles.some((p) => p.name === profileName) ? profileName : ""}
+            onValueChange={handleLoadProfile}
+            disabled={profiles.length === 0}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder={profiles.length ? "Choose a profile" : "No saved profiles"} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.name} value={profile.name}>
+                  {profile.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="profile-name">Profile name</Label>
+          <Input
+            id="profile-name"
+            className="w-48"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => saveProfile.mutate(profileName.trim())}
+          disabled={!profileName.trim() || saveProfile.isPending}
+        >
+          <Save className="h-4 w-4 mr-2" />
+          Save
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => deleteProfile.mutate(profileName.trim())}
+          disabled={!profiles.some((p) => p.name === profileName.trim()) || deleteProfile.isPending}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Rules apply to semantic output. The first rule matching an element wins; paths
+        support <code>a/b</code>, <code>/root//b</code>, <code>*</code>,{" "}
+        <code>[@attr='value']</code> and <code>[n]</code>.
+      </p>
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <RuleRow
+            key={`${revision}-${index}`}
+            rule={rule}
+            onChange={(updated) => handleRuleChange(index, updated)}
+            onRemove={() => {
+              setRevision((r) => r + 1);
+              onChange(rules.filter((_, i) => i !== index));
+            }}
+          />
+        ))}
+      </div>
+
+      <Button variant="outline" size="sm" onClick={handleAddRule}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add rule
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AlertCircle, FileOutput } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import HtmlPreview from "./HtmlPreview";
+import useLocalStorage from "@/hooks/useLocalStorage";
+import { startConversion, type ConversionJob } from "@/lib/conversion";
+import {
+  SOURCE_MAP_SCRIPT,
+  type SourceMatchesMessage,
+  type SourceSelectMessage,
+} from "@/lib/source-map";
+import {
+  DEFAULT_NAMESPACE_PREFIX,
+  queryDocument,
+  selectionXml,
+  type QueryLanguage,
+  type QueryResult,
+} from "@/lib/xml-query";
+import { ATTRIBUTE_NODE, ELEMENT_NODE } from "@shared/dom-utils";
+import { createHtmlDocument } from "@shared/xml-converter";
+import { getXmlEnvironment } from "@shared/xml-environment";
+
+interface QueryPanelProps {
+  xml: string;
+  /** Receives the paths of the matches, to mark them in the editor */
+  onMatches: (paths: string[]) => void;
+  /** Called with the path of a match or tree node picked to show in the editor */
+  onSelectSource: (path: string) => void;
+  /** Converts the matched elements on their own */
+  onConvertSelection: (xml: string) => void;
+  isConverting?: boolean;
+}
+
+// Queries and the tree run after a pause in typing
+const DEBOUNCE_MS = 300;
+
+// Longer result lists are cut, the count still covers every match
+const MAX_LISTED_MATCHES = 200;
+
+const PLACEHOLDERS: Record<QueryLanguage, string> = {
+  xpath: `e.g. //book[price > 30]/title, count(//book) or //${DEFAULT_NAMESPACE_PREFIX}:entry for a default namespace`,
+  css: "e.g. book > title or item[id]",
+};
+
+/**
+ * Runs XPath 1.0 expressions or CSS selectors against the XML, listing the
+ * matches with their paths and marking them in a tree view of the document.
+ * The matched elements can be converted on their own.
+ */
+export default function QueryPanel({
+  xml,
+  onMatches,
+  onSelectSource,
+  onConvertSelection,
+  isConverting,
+}: QueryPanelProps) {
+  const [language, setLanguage] = useLocalStorage<QueryLanguage>("queryLanguage", "xpath");
+  const [expression, setExpression] = useLocalStorage("queryExpression", "");
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [treeHtml, setTreeHtml] = useState("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if (!expression.trim() || !xml.trim()) {
+        setResult(null);
+        setError(null);
+        return;
+      }
+      try {
+        setResult(queryDocument(getXmlEnvironment().parse(xml), language, expression));
+        setError(null);
+      } catch (err) {
+        setResult(null);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [xml, language, expression]);
+
+  // The tree is rendered in the worker, the last good tree stays while the XML is invalid
+  useEffect(() => {
+    if (!xml.trim()) {
+      setTreeHtml("");
+      return;
+    }
+
+    let job: ConversionJob | null = null;
+    const timer = setTimeout(async () => {
+      job = startConversion({ kind: "convert", xml, options: { renderMode: "tree" } });
+      try {
+        setTreeHtml((await job.result).html);
+      } catch {
+        // Invalid XML is reported by the editor, cancelled jobs were replaced
+      }
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [xml]);
+
+  const matches = useMemo(() => (result?.type === "nodes" ? result.matches : []), [result]);
+  const paths = useMemo(() => matches.map((match) => match.path), [matches]);
+
+  useEffect(() => onMatches(paths), [paths, onMatches]);
+
+  const treeDocument = useMemo(() => (treeHtml ? createHtmlDocument(SOURCE_MAP_SCRIPT + treeHtml) : ""), [treeHtml]);
+  const matchesMessage = useMemo<SourceMatchesMessage>(() => ({ type: "xml-source-matches", paths }), [paths]);
+
+  const handleFrameMessage = useCallback(
+    (data: unknown) => {
+      const message = data as Partial<SourceSelectMessage> | null;
+      if (message?.type === "xml-source-select" && typeof message.path === "string") {
+        onSelectSource(message.path);
+      }
+    },
+    [onSelectSource],
+  );
+
+  const selection = useMemo(() => selectionXml(matches), [matches]);
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={language}
+          onValueChange={(value) => value && setLanguage(value as QueryLanguage)}
+          aria-label="Query language"
+        >
+          <ToggleGroupItem value="xpath">XPath</ToggleGroupItem>
+          <ToggleGroupItem value="css">CSS</ToggleGroupItem>
+        </ToggleGroup>
+        <Input
+          className="h-9 flex-1 min-w-[16rem] font-mono"
+          placeholder={PLACEHOLDERS[language]}
+          aria-label="Query"
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => selection && onConvertSelection(selection)}
+          disabled={!selection || isConverting}
+          title="Convert only the matched elements"
+        >
+          <FileOutput className="h-4 w-4 mr-2" />
+          Convert selection
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="flex items-start gap-1 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </p>
+      ) : result?.type === "value" ? (
+        <p className="text-sm">
+          Result: <code className="font-mono">{String(result.value)}</code>
+        </p>
+      ) : (
+        result && (
+          <p className="text-xs text-muted-foreground">
+            {matches.length === 1 ? "1 match" : `${matches.length} matches`}
+            {matches.length > MAX_LISTED_MATCHES && `, the first ${MAX_LISTED_MATCHES} are listed`}
+          </p>
+        )
+      )}
+      {language === "xpath" && (
+        <p className="text-xs text-muted-foreground">
+          Prefixes are the ones declared in the document. Elements in the root&apos;s default namespace take the
+          prefix <code className="font-mono">{DEFAULT_NAMESPACE_PREFIX}:</code>, e.g.{" "}
+          <code className="font-mono">//{DEFAULT_NAMESPACE_PREFIX}:entry</code> in an Atom feed.
+        </p>
+      )}
+
+      <div className="grid gap-3 lg:grid-cols-2">
+        <ScrollArea className="h-[640px] rounded-md border">
+          {matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">
+              {result?.type === "nodes" ? "No matches" : "Matches are listed here"}
+            </p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {matches.slice(0, MAX_LISTED_MATCHES).map((match, index) => (
+                <li key={index}>
+                  <button
+                    type="button"
+                    className="w-full px-3 py-2 text-left hover:bg-muted focus:bg-muted focus:outline-none"
+                    onClick={() => onSelectSource(match.path)}
+                  >
+                    <p className="font-mono text-xs break-all">
+                      {match.path}
+                      {match.node.nodeType !== ELEMENT_NODE && match.node.nodeType !== ATTRIBUTE_NODE && (
+                        <span className="text-muted-foreground">/{match.label}</span>
+                      )}
+                    </p>
+                    {match.preview && <p className="text-xs text-muted-foreground truncate">{match.preview}</p>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+        {treeDocument && (
+          <HtmlPreview
+            htmlDocument={treeDocument}
+            allowScripts
+            onFrameMessage={handleFrameMessage}
+            frameMessage={matchesMessage}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { ChevronDown, Info } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type { RenderExplanation, Renderer } from "@shared/render-mode";
+
+const RENDERER_LABELS: Record<Renderer, string> = {
+  "table-format": "Table format",
+  atom: "Atom feed",
+  rss: "RSS feed",
+  svg: "SVG image",
+  table: "Table",
+  semantic: "Semantic HTML",
+  tree: "Tree",
+  raw: "Raw XML",
+};
+
+interface RenderExplanationPanelProps {
+  explanation: RenderExplanation;
+}
+
+/**
+ * Shows which renderer produced the output and why, so auto mode's choice
+ * can be understood and overridden
+ */
+export default function RenderExplanationPanel({ explanation }: RenderExplanationPanelProps) {
+  return (
+    <Collapsible className="rounded-md border px-4 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Info className="h-4 w-4 text-muted-foreground" />
+          Rendered as
+          <Badge variant="secondary">{RENDERER_LABELS[explanation.renderer]}</Badge>
+        </div>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm">
+            Why?
+            <ChevronDown className="h-4 w-4 ml-1" />
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+      <CollapsibleContent>
+        <ul className="list-disc pl-6 py-2 text-sm text-muted-foreground space-y-1">
+          {explanation.reasons.map((reason, index) => (
+            <li key={index}>{reason}</li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
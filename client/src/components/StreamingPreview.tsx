@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import HtmlPreview from "./HtmlPreview";
+import { createHtmlDocument } from "@shared/xml-converter";
+import type { StreamedHtml } from "@/lib/conversion";
+
+interface StreamingPreviewProps {
+  /** Output of a streaming conversion, rows are added while it runs */
+  output: StreamedHtml;
+  /** Rows converted so far, changes as rows arrive */
+  rowCount: number;
+}
+
+// Rows added to the frame at a time
+const PAGE_SIZE = 200;
+
+// Asks the parent for more rows when the reader nears the bottom and adds
+// them to the table body or the feed's item list
+const PAGING_SCRIPT = `
+  <script>
+  (function () {
+    var waiting = false;
+    var done = false;
+    var check = function () {
+      if (waiting || done) return;
+      if (window.innerHeight + window.scrollY < document.documentElement.scrollHeight - 600) return;
+      waiting = true;
+      parent.postMessage({ type: 'xml-stream-more' }, '*');
+    };
+    window.addEventListener('message', function (event) {
+      if (event.source !== parent || !event.data || event.data.type !== 'xml-stream-rows') return;
+      var container = document.querySelector('.feed-items') || document.querySelector('tbody');
+      if (container) container.insertAdjacentHTML('beforeend', event.data.html);
+      waiting = false;
+      done = event.data.done;
+      check();
+    });
+    window.addEventListener('scroll', check);
+    document.addEventListener('DOMContentLoaded', check);
+  })();
+  </script>
+`;
+
+/**
+ * Previews a streaming conversion. The frame starts with the first rows and
+ * asks for more as it is scrolled, so large outputs never load at once.
+ */
+export default function StreamingPreview({ output, rowCount }: StreamingPreviewProps) {
+  const sentRows = useRef(0);
+  // Reply to a request that came before the rows did
+  const pendingReply = useRef<((message: unknown) => void) | null>(null);
+
+  const start = output.start;
+  const htmlDocument = useMemo(() => {
+    if (start === null) return "";
+    sentRows.current = Math.min(PAGE_SIZE, output.rows.length);
+    pendingReply.current = null;
+    return createHtmlDocument(PAGING_SCRIPT + start + output.rows.slice(0, sentRows.current).join(""));
+  }, [output, start]);
+
+  const sendRows = useCallback(
+    (reply: (message: unknown) => void) => {
+      const rows = output.rows.slice(sentRows.current, sentRows.current + PAGE_SIZE);
+      const done = output.end !== null && sentRows.current + rows.length >= output.rows.length;
+      if (rows.length === 0 && !done) {
+        pendingReply.current = reply;
+        return;
+      }
+
+      sentRows.current += rows.length;
+      pendingReply.current = null;
+      reply({ type: "xml-stream-rows", html: rows.join(""), done });
+    },
+    [output],
+  );
+
+  // Answer a waiting frame once more rows arrive or the conversion ends
+  useEffect(() => {
+    if (pendingReply.current) sendRows(pendingReply.current);
+  }, [rowCount, output.end, sendRows]);
+
+  const handleFrameMessage = useCallback(
+    (data: unknown, reply: (message: unknown) => void) => {
+      if ((data as { type?: string } | null)?.type === "xml-stream-more") sendRows(reply);
+    },
+    [sendRows],
+  );
+
+  if (!htmlDocument) {
+    return <p className="text-sm text-muted-foreground">Waiting for the first rows...</p>;
+  }
+
+  return <HtmlPreview htmlDocument={htmlDocument} allowScripts onFrameMessage={handleFrameMessage} />;
+}
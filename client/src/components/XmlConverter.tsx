@@ -1,41 +1,129 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import FileUploader from "./FileUploader";
 import CodePreview from "./CodePreview";
+import HtmlPreview from "./HtmlPreview";
+import StreamingPreview from "./StreamingPreview";
+import BatchQueue from "./BatchQueue";
+import XmlEditor from "./XmlEditor";
+import LivePreview from "./LivePreview";
+import QueryPanel from "./QueryPanel";
+import HistoryPanel from "./HistoryPanel";
+import MappingRulesEditor from "./MappingRulesEditor";
+import RenderExplanationPanel from "./RenderExplanationPanel";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
-import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, Copy, Download, FileDown, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, Copy, Download, FileDown, Loader2, WandSparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { convertXmlToHtml, formatXml, formatHtml } from "@/lib/xml-converter";
+import {
+  createHtmlDocument,
+  formatXml,
+} from "@shared/xml-converter";
+import { XmlParseError } from "@shared/xml-errors";
+import { transformXmlToHtml } from "@shared/xslt";
+import type { MappingRule } from "@shared/schema";
+import type { PrefixMode } from "@shared/xml-namespaces";
+import type { RenderExplanation, RenderMode } from "@shared/render-mode";
+import type { CdataMode, CommentMode } from "@shared/content-nodes";
 import useLocalStorage from "@/hooks/useLocalStorage";
+import type { BatchFile } from "@/lib/batch";
+import { addHistoryEntry, type HistorySettings } from "@/lib/history";
+import {
+  CONVERSION_STAGES,
+  ConversionCancelledError,
+  startConversion,
+  startStreamingConversion,
+  type ConversionJob,
+  type ConversionStage,
+  type StreamedHtml,
+  type StreamingJob,
+  type WorkerConvertOptions,
+} from "@/lib/conversion";
 import JSZip from "jszip";
 import FileSaver from "file-saver";
 
+// What happens after each stage, shown under the progress bar
+const STAGE_LABELS: Record<ConversionStage, string> = {
+  parsed: "Converting",
+  converted: "Formatting",
+  formatted: "Finishing",
+};
+
 export default function XmlConverter() {
   const [activeTab, setActiveTab] = useState("upload");
   const [xmlInput, setXmlInput] = useLocalStorage("xmlInput", "");
+  const [trustedHtml, setTrustedHtml] = useLocalStorage("trustedHtml", false);
+  const [mappingRules, setMappingRules] = useLocalStorage<MappingRule[]>("mappingRules", []);
+  const [prefixMode, setPrefixMode] = useLocalStorage<PrefixMode>("prefixMode", "strip");
+  const [interactiveTables, setInteractiveTables] = useLocalStorage("interactiveTables", false);
+  const [renderMode, setRenderMode] = useLocalStorage<RenderMode>("renderMode", "auto");
+  const [tablePath, setTablePath] = useLocalStorage("tablePath", "");
+  const [cdataMode, setCdataMode] = useLocalStorage<CdataMode>("cdataMode", "text");
+  const [commentMode, setCommentMode] = useLocalStorage<CommentMode>("commentMode", "drop");
+  const [xsltMode, setXsltMode] = useLocalStorage("xsltMode", false);
+  const [xsltInput, setXsltInput] = useLocalStorage("xsltInput", "");
+  const [livePreview, setLivePreview] = useLocalStorage("livePreview", false);
+  // Source mapping between the editor and the live preview, by XML path
+  const [revealedSource, setRevealedSource] = useState<{ path: string } | null>(null);
+  const [cursorPath, setCursorPath] = useState<string | null>(null);
+  const [queryPanel, setQueryPanel] = useLocalStorage("queryPanel", false);
+  const [queryMatches, setQueryMatches] = useState<string[]>([]);
   const [htmlOutput, setHtmlOutput] = useState("");
   const [renderedHtml, setRenderedHtml] = useState("");
-  const [error, setError] = useState<string | null>(null);
+  const [explanation, setExplanation] = useState<RenderExplanation | null>(null);
+  const [error, setError] = useState<string | XmlParseError | null>(null);
   const [isConverting, setIsConverting] = useState(false);
+  const [conversionStage, setConversionStage] = useState<ConversionStage | null>(null);
+  const conversionJob = useRef<ConversionJob | StreamingJob | null>(null);
+  // A failing history (quota, private window) is reported once, not after every conversion
+  const historyErrorShown = useRef(false);
+  // Output of a file converted as a stream, too large for the editor and code view
+  const [streamed, setStreamed] = useState<StreamedHtml | null>(null);
+  const [streamedRows, setStreamedRows] = useState(0);
+  const [streamProgress, setStreamProgress] = useState(0);
+  // Files of a multi-file, folder or ZIP upload, converted in a queue
+  const [batchFiles, setBatchFiles] = useState<BatchFile[] | null>(null);
   const [formattedXml, setFormattedXml] = useState("");
   const { toast } = useToast();
 
-  // Process XML input on change
+  // Rule rows still being filled in have no pattern yet
+  const conversionOptions: WorkerConvertOptions = {
+    trustedHtml,
+    mappingRules: mappingRules.filter((rule) => rule.match.trim()),
+    prefixMode,
+    interactiveTables,
+    renderMode,
+    tablePath,
+    cdataMode,
+    commentMode,
+  };
+
+  // Interactive tables and the tree view need their scripts
+  const previewScripts = (interactiveTables || renderMode === "tree") && !xsltMode;
+
+  // The preview and the downloads use the same standalone document
+  const htmlDocument = useMemo(
+    () => (renderedHtml ? createHtmlDocument(renderedHtml) : ""),
+    [renderedHtml]
+  );
+
+  // Clearing the input clears the output. The XML is formatted for display
+  // by the worker when it is converted, never on the main thread as it changes.
   useEffect(() => {
-    if (xmlInput.trim()) {
-      try {
-        // Format the XML for display
-        const formatted = formatXml(xmlInput);
-        setFormattedXml(formatted);
-        setError(null);
-      } catch (err) {
-        // Just format the display but don't show error yet
-        setFormattedXml(xmlInput);
-      }
-    } else {
+    if (!xmlInput.trim()) {
       setFormattedXml("");
       setHtmlOutput("");
     }
@@ -47,6 +135,13 @@ export default function XmlConverter() {
     if (error) setError(null);
   };
 
+  const handleFormatXml = () => {
+    setXmlInput(formatXml(xmlInput));
+  };
+
+  // A new object each time, so clicking the same element jumps to it again
+  const handleSelectSource = useCallback((path: string) => setRevealedSource({ path }), []);
+
   const handleFileUpload = (content: string) => {
     setXmlInput(content);
     setActiveTab("input");
@@ -54,40 +149,163 @@ export default function XmlConverter() {
     if (error) setError(null);
   };
 
-  const handleConvert = async () => {
-    if (!xmlInput.trim()) {
-      setError("Please provide XML input first");
-      return;
+  const handleConversionError = (err: unknown) => {
+    if (err instanceof ConversionCancelledError) {
+      toast({ title: "Conversion cancelled" });
+    } else if (err instanceof XmlParseError) {
+      setError(err);
+    } else {
+      setError(
+        err instanceof Error 
+          ? `Error: ${err.message}` 
+          : "Invalid XML format. Please check your input."
+      );
     }
+  };
 
+  // Files too large for the editor are converted while they are read, and
+  // previewed a page of rows at a time
+  const handleLargeFile = async (file: File) => {
     setIsConverting(true);
+    setHtmlOutput("");
+    setExplanation(null);
+    setError(null);
+    setStreamedRows(0);
+    setStreamProgress(0);
+
+    const job = startStreamingConversion(
+      file,
+      { trustedHtml, prefixMode, tablePath: renderMode === "table" ? tablePath : undefined },
+      (bytesRead) => {
+        setStreamedRows(job.output.rows.length);
+        setStreamProgress(file.size > 0 ? bytesRead / file.size : 1);
+      },
+    );
+    conversionJob.current = job;
+    setStreamed(job.output);
+    setActiveTab("preview");
+
     try {
-      // Convert XML to clean HTML for rendering
-      const result = await convertXmlToHtml(xmlInput);
-      setRenderedHtml(result);
-      
-      // Format HTML for code display
-      const formattedHtml = formatHtml(result);
-      setHtmlOutput(formattedHtml);
+      const output = await job.result;
+      if (output.start === null) {
+        throw new Error(`${file.name} has no table rows or feed items to stream`);
+      }
+      toast({
+        title: "Conversion successful",
+        description: `${output.rows.length.toLocaleString()} rows converted from ${file.name}`,
+      });
+    } catch (err) {
+      setStreamed(null);
+      setActiveTab("input");
+      handleConversionError(err);
+    } finally {
+      conversionJob.current = null;
+      setIsConverting(false);
+    }
+  };
+
+  // Stylesheets referenced by <?xml-stylesheet?> are loaded relative to the app
+  const fetchStylesheet = async (href: string) => {
+    const res = await fetch(new URL(href, window.location.href));
+    if (!res.ok) {
+      throw new Error(`${res.status} ${res.statusText}`);
+    }
+    return res.text();
+  };
+
+  /**
+   * Converts XML from the editor, or a part of it, and shows the result
+   * @param useXslt Transform with the XSLT stylesheet when XSLT mode is on
+   */
+  const runConversion = async (xml: string, useXslt: boolean, description: string) => {
+    setIsConverting(true);
+    setConversionStage(null);
+    try {
+      // Conversion and formatting run in a worker. XSLT needs the browser's
+      // XSLTProcessor, which workers lack, so only its output is formatted there.
+      if (useXslt) {
+        const html = await transformXmlToHtml(xml, {
+          stylesheet: xsltInput,
+          resolveStylesheet: fetchStylesheet,
+          trustedHtml,
+        });
+        setConversionStage("converted");
+        conversionJob.current = startConversion({ kind: "format", html, xml }, setConversionStage);
+      } else {
+        conversionJob.current = startConversion(
+          { kind: "convert", xml, options: conversionOptions, formatSource: true },
+          setConversionStage,
+        );
+      }
+
+      const result = await conversionJob.current.result;
+      setStreamed(null);
+      setRenderedHtml(result.html);
+      setExplanation(result.explanation);
+      setHtmlOutput(result.formattedHtml);
+      setFormattedXml(result.formattedXml);
+
+      // The conversion stands even when it cannot be saved
+      addHistoryEntry(xml, useXslt ? { ...conversionOptions, xslt: xsltInput } : conversionOptions).catch((err) => {
+        if (historyErrorShown.current) return;
+        historyErrorShown.current = true;
+        toast({
+          title: "Not saved to the history",
+          description: err instanceof Error ? err.message : String(err),
+          variant: "destructive",
+        });
+      });
       
       setActiveTab("preview");
       setError(null);
       
       toast({
         title: "Conversion successful",
-        description: "XML has been converted to HTML",
+        description,
       });
     } catch (err) {
-      setError(
-        err instanceof Error 
-          ? `Error: ${err.message}` 
-          : "Invalid XML format. Please check your input."
-      );
+      handleConversionError(err);
     } finally {
+      conversionJob.current = null;
       setIsConverting(false);
+      setConversionStage(null);
     }
   };
 
+  const handleConvert = () => {
+    if (!xmlInput.trim()) {
+      setError("Please provide XML input first");
+      return;
+    }
+    void runConversion(xmlInput, xsltMode, "XML has been converted to HTML");
+  };
+
+  // Query matches are converted with the built-in conversion, XSLT templates expect the whole document
+  const handleConvertSelection = (xml: string) => {
+    void runConversion(xml, false, "The matched elements have been converted to HTML");
+  };
+
+  // Entries saved before an option existed use its default
+  const handleRestoreHistory = (xml: string, settings: HistorySettings) => {
+    setXmlInput(xml);
+    setTrustedHtml(settings.trustedHtml ?? false);
+    setMappingRules(settings.mappingRules ?? []);
+    setPrefixMode(settings.prefixMode ?? "strip");
+    setInteractiveTables(settings.interactiveTables ?? false);
+    setRenderMode(settings.renderMode ?? "auto");
+    setTablePath(settings.tablePath ?? "");
+    setCdataMode(settings.cdataMode ?? "text");
+    setCommentMode(settings.commentMode ?? "drop");
+    setXsltMode(settings.xslt !== undefined);
+    if (settings.xslt !== undefined) setXsltInput(settings.xslt);
+    setError(null);
+    setActiveTab("input");
+  };
+
+  const handleCancel = () => {
+    conversionJob.current?.cancel();
+  };
+
   const handleCopyHtml = () => {
     if (htmlOutput) {
       navigator.clipboard.writeText(htmlOutput);
@@ -98,10 +316,20 @@ export default function XmlConverter() {
     }
   };
 
-  const handleDownloadHtml = () => {
+  // Downloads are formatted as whole documents, in the worker like the output
+  const formatDocument = async () => {
+    const result = await startConversion({ kind: "format", html: htmlDocument }).result;
+    return result.formattedHtml;
+  };
+
+  const handleDownloadHtml = async () => {
     if (htmlOutput) {
-      const blob = new Blob([htmlOutput], { type: "text/html;charset=utf-8" });
-      FileSaver.saveAs(blob, "converted.html");
+      try {
+        const blob = new Blob([await formatDocument()], { type: "text/html;charset=utf-8" });
+        FileSaver.saveAs(blob, "converted.html");
+      } catch (err) {
+        handleConversionError(err);
+      }
     }
   };
 
@@ -109,16 +337,36 @@ export default function XmlConverter() {
     if (xmlInput && htmlOutput) {
       const zip = new JSZip();
       zip.file("original.xml", xmlInput);
-      zip.file("converted.html", htmlOutput);
+      try {
+        zip.file("converted.html", await formatDocument());
+      } catch (err) {
+        handleConversionError(err);
+        return;
+      }
       
       const content = await zip.generateAsync({ type: "blob" });
       FileSaver.saveAs(content, "xml-html-conversion.zip");
     }
   };
 
+  // The parts are joined by the Blob, never as one string
+  const handleDownloadStreamed = () => {
+    if (streamed) {
+      const documentHtml = createHtmlDocument("");
+      const bodyEnd = documentHtml.lastIndexOf("</body>");
+      const blob = new Blob(
+        [documentHtml.slice(0, bodyEnd), streamed.start ?? "", ...streamed.rows, streamed.end ?? "", documentHtml.slice(bodyEnd)],
+        { type: "text/html;charset=utf-8" },
+      );
+      FileSaver.saveAs(blob, "converted.html");
+    }
+  };
+
   const handleReset = () => {
     setXmlInput("");
     setHtmlOutput("");
+    setStreamed(null);
+    setExplanation(null);
     setError(null);
     setActiveTab("upload");
   };
@@ -126,16 +374,38 @@ export default function XmlConverter() {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
-          <TabsTrigger value="upload">Upload</TabsTrigger>
-          <TabsTrigger value="input">Input</TabsTrigger>
-          <TabsTrigger value="preview" disabled={!htmlOutput}>Preview</TabsTrigger>
-        </TabsList>
+        <div className="flex items-center gap-2">
+          <TabsList className="grid flex-1 grid-cols-4">
+            <TabsTrigger value="upload">Upload</TabsTrigger>
+            <TabsTrigger value="input">Input</TabsTrigger>
+            <TabsTrigger value="rules">Rules</TabsTrigger>
+            <TabsTrigger value="preview" disabled={!htmlOutput && !streamed}>Preview</TabsTrigger>
+          </TabsList>
+          <HistoryPanel currentXml={xmlInput} onRestore={handleRestoreHistory} />
+        </div>
         
         <TabsContent value="upload" className="mt-4">
           <Card>
             <CardContent className="pt-6">
-              <FileUploader onFileLoaded={handleFileUpload} />
+              <FileUploader
+                onFileLoaded={handleFileUpload}
+                onLargeFile={handleLargeFile}
+                onFilesSelected={setBatchFiles}
+              />
+              {batchFiles && (
+                <div className="mt-6 space-y-2">
+                  {xsltMode && (
+                    <p className="text-sm text-muted-foreground">
+                      Batches use the built-in conversion, XSLT only applies to single documents.
+                    </p>
+                  )}
+                  <BatchQueue
+                    files={batchFiles}
+                    options={conversionOptions}
+                    onClear={() => setBatchFiles(null)}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -144,29 +414,252 @@ export default function XmlConverter() {
           <Card>
             <CardContent className="pt-6 space-y-4">
               <div className="space-y-2">
-                <label htmlFor="xml-input" className="text-sm font-medium">
-                  XML Input
-                </label>
-                <Textarea
-                  id="xml-input"
-                  placeholder="Paste your XML here..."
-                  className="font-mono h-80 resize-none"
-                  value={xmlInput}
-                  onChange={(e) => handleXmlInput(e.target.value)}
+                <div className="flex items-center justify-between">
+                  <label htmlFor="xml-input" className="text-sm font-medium">
+                    XML Input
+                  </label>
+                  <div className="flex items-center space-x-4">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="live-preview"
+                        checked={livePreview}
+                        onCheckedChange={setLivePreview}
+                      />
+                      <Label htmlFor="live-preview">Live preview</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="query-panel"
+                        checked={queryPanel}
+                        onCheckedChange={setQueryPanel}
+                      />
+                      <Label htmlFor="query-panel">Query</Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleFormatXml}
+                      disabled={!xmlInput.trim()}
+                      title="Format (Shift+Alt+F)"
+                    >
+                      <WandSparkles className="h-4 w-4 mr-2" />
+                      Format
+                    </Button>
+                  </div>
+                </div>
+                {livePreview ? (
+                  <ResizablePanelGroup direction="horizontal" autoSaveId="xml-live-preview">
+                    <ResizablePanel defaultSize={50} minSize={25} className="pr-3">
+                      <XmlEditor
+                        id="xml-input"
+                        placeholder="Paste your XML here..."
+                        className="h-[680px]"
+                        value={xmlInput}
+                        onChange={handleXmlInput}
+                        reveal={revealedSource}
+                        matches={queryPanel ? queryMatches : undefined}
+                        onCursorPath={setCursorPath}
+                      />
+                    </ResizablePanel>
+                    <ResizableHandle withHandle />
+                    <ResizablePanel defaultSize={50} minSize={25} className="pl-3">
+                      <LivePreview
+                        xml={xmlInput}
+                        options={conversionOptions}
+                        xslt={xsltMode ? xsltInput : undefined}
+                        resolveStylesheet={fetchStylesheet}
+                        allowScripts={previewScripts}
+                        onSelectSource={handleSelectSource}
+                        highlightPath={cursorPath}
+                      />
+                    </ResizablePanel>
+                  </ResizablePanelGroup>
+                ) : (
+                  <XmlEditor
+                    id="xml-input"
+                    placeholder="Paste your XML here..."
+                    className="h-80"
+                    value={xmlInput}
+                    onChange={handleXmlInput}
+                    reveal={revealedSource}
+                    matches={queryPanel ? queryMatches : undefined}
+                  />
+                )}
+              </div>
+
+              {queryPanel && (
+                <QueryPanel
+                  xml={xmlInput}
+                  onMatches={setQueryMatches}
+                  onSelectSource={handleSelectSource}
+                  onConvertSelection={handleConvertSelection}
+                  isConverting={isConverting}
                 />
+              )}
+              
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="xslt-mode"
+                    checked={xsltMode}
+                    onCheckedChange={setXsltMode}
+                  />
+                  <Label htmlFor="xslt-mode">Transform with XSLT</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="render-mode">Render as</Label>
+                  <Select
+                    value={renderMode}
+                    onValueChange={(value) => setRenderMode(value as RenderMode)}
+                    disabled={xsltMode}
+                  >
+                    <SelectTrigger id="render-mode" className="h-9 w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto</SelectItem>
+                      <SelectItem value="table">Table</SelectItem>
+                      <SelectItem value="semantic">Semantic</SelectItem>
+                      <SelectItem value="tree">Tree</SelectItem>
+                      <SelectItem value="raw">Raw XML</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {renderMode === "table" && !xsltMode && (
+                  <div className="flex items-center space-x-2">
+                    <Label htmlFor="table-path">Row path</Label>
+                    <Input
+                      id="table-path"
+                      className="h-9 w-48 font-mono"
+                      placeholder="Detect, or e.g. //item"
+                      value={tablePath}
+                      onChange={(e) => setTablePath(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="prefix-mode">Namespace prefixes</Label>
+                  <Select
+                    value={prefixMode}
+                    onValueChange={(value) => setPrefixMode(value as PrefixMode)}
+                    disabled={xsltMode}
+                  >
+                    <SelectTrigger id="prefix-mode" className="h-9 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="strip">Strip (price)</SelectItem>
+                      <SelectItem value="keep">Keep (ns2:price)</SelectItem>
+                      <SelectItem value="label">Friendly labels</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="cdata-mode">CDATA</Label>
+                  <Select
+                    value={cdataMode}
+                    onValueChange={(value) => setCdataMode(value as CdataMode)}
+                    disabled={xsltMode}
+                  >
+                    <SelectTrigger id="cdata-mode" className="h-9 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="text">As text</SelectItem>
+                      <SelectItem value="html">As HTML</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="comment-mode">Comments</Label>
+                  <Select
+                    value={commentMode}
+                    onValueChange={(value) => setCommentMode(value as CommentMode)}
+                    disabled={xsltMode}
+                  >
+                    <SelectTrigger id="comment-mode" className="h-9 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="drop">Drop</SelectItem>
+                      <SelectItem value="html">HTML comments</SelectItem>
+                      <SelectItem value="visible">Show as notes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="interactive-tables"
+                    checked={interactiveTables}
+                    onCheckedChange={setInteractiveTables}
+                    disabled={xsltMode}
+                  />
+                  <Label htmlFor="interactive-tables">Interactive tables</Label>
+                </div>
               </div>
               
-              {error && (
+              {xsltMode && (
+                <div className="space-y-2">
+                  <label htmlFor="xslt-input" className="text-sm font-medium">
+                    XSLT Stylesheet
+                  </label>
+                  <XmlEditor
+                    id="xslt-input"
+                    placeholder="Paste an XSLT 1.0 stylesheet, or leave empty to use the document's <?xml-stylesheet?> instruction..."
+                    className="h-48"
+                    value={xsltInput}
+                    onChange={(value) => {
+                      setXsltInput(value);
+                      if (error) setError(null);
+                    }}
+                  />
+                </div>
+              )}
+              
+              {error instanceof XmlParseError ? (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>
+                    {error.line > 0
+                      ? `Invalid XML at line ${error.line}, column ${error.column}`
+                      : "Invalid XML"}
+                  </AlertTitle>
+                  <AlertDescription className="space-y-2">
+                    <p>{error.message}</p>
+                    {error.excerpt && (
+                      <pre className="text-xs font-mono overflow-x-auto whitespace-pre">
+                        {error.excerpt}
+                      </pre>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              ) : error && (
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
                   <AlertDescription>{error}</AlertDescription>
                 </Alert>
               )}
               
-              <div className="flex justify-end space-x-2">
-                <Button variant="outline" onClick={handleReset}>
-                  Reset
-                </Button>
+              <div className="flex items-center justify-end space-x-2">
+                <div className="flex items-center space-x-2 mr-auto">
+                  <Switch
+                    id="trusted-html"
+                    checked={trustedHtml}
+                    onCheckedChange={setTrustedHtml}
+                  />
+                  <Label htmlFor="trusted-html" className="text-sm text-muted-foreground">
+                    Trust embedded HTML (skip sanitizing)
+                  </Label>
+                </div>
+                {isConverting ? (
+                  <Button variant="outline" onClick={handleCancel}>
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button variant="outline" onClick={handleReset}>
+                    Reset
+                  </Button>
+                )}
                 <Button 
                   onClick={handleConvert} 
                   disabled={isConverting || !xmlInput.trim()}
@@ -181,6 +674,26 @@ export default function XmlConverter() {
                   )}
                 </Button>
               </div>
+              
+              {isConverting && (
+                <div className="space-y-1">
+                  <Progress
+                    value={conversionStage ? ((CONVERSION_STAGES.indexOf(conversionStage) + 1) / CONVERSION_STAGES.length) * 100 : 0}
+                    className="h-2"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {conversionStage ? `${STAGE_LABELS[conversionStage]}...` : "Parsing..."}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="rules" className="mt-4">
+          <Card>
+            <CardContent className="pt-6">
+              <MappingRulesEditor rules={mappingRules} onChange={setMappingRules} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -188,6 +701,41 @@ export default function XmlConverter() {
         <TabsContent value="preview" className="mt-4">
           <Card>
             <CardContent className="pt-6 space-y-6">
+              {streamed && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-lg font-medium">HTML Preview</h3>
+                    <div className="flex space-x-2">
+                      {isConverting ? (
+                        <Button variant="outline" size="sm" onClick={handleCancel}>
+                          Cancel
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={handleDownloadStreamed}>
+                          <FileDown className="h-4 w-4 mr-2" />
+                          HTML
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {isConverting ? (
+                    <div className="space-y-1">
+                      <Progress value={streamProgress * 100} className="h-2" />
+                      <p className="text-xs text-muted-foreground">
+                        Converting... {Math.round(streamProgress * 100)}% read, {streamedRows.toLocaleString()} rows
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {streamed.rows.length.toLocaleString()} rows, more are loaded as you scroll
+                    </p>
+                  )}
+
+                  <StreamingPreview output={streamed} rowCount={streamedRows} />
+                </div>
+              )}
+
               {htmlOutput && (
                 <>
                   <div className="space-y-2">
@@ -209,9 +757,12 @@ export default function XmlConverter() {
                       </div>
                     </div>
                     
-                    <div className="border rounded-md p-4 bg-white dark:bg-neutral-800">
-                      <div dangerouslySetInnerHTML={{ __html: renderedHtml }} />
-                    </div>
+                    {explanation && <RenderExplanationPanel explanation={explanation} />}
+                    
+                    <HtmlPreview
+                      htmlDocument={htmlDocument}
+                      allowScripts={previewScripts}
+                    />
                   </div>
                   
                   <div className="space-y-2">
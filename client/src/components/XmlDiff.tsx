@@ -0,0 +1,39 @@
+import { useEffect, useRef } from "react";
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { MergeView } from "@codemirror/merge";
+import { xml } from "@codemirror/lang-xml";
+import { baseExtensions } from "@/lib/codemirror";
+import { cn } from "@/lib/utils";
+
+interface XmlDiffProps {
+  original: string;
+  modified: string;
+  className?: string;
+}
+
+/**
+ * Read-only side-by-side diff of two XML documents, unchanged stretches
+ * are folded away
+ */
+export default function XmlDiff({ original, modified, className }: XmlDiffProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const extensions = [baseExtensions(), xml(), EditorState.readOnly.of(true), EditorView.editable.of(false)];
+    const view = new MergeView({
+      a: { doc: original, extensions },
+      b: { doc: modified, extensions },
+      parent: containerRef.current!,
+      collapseUnchanged: { margin: 3, minSize: 6 },
+    });
+    return () => view.destroy();
+  }, [original, modified]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("rounded-md border border-input overflow-auto [&_.cm-mergeView]:h-full", className)}
+    />
+  );
+}
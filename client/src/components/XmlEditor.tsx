@@ -0,0 +1,147 @@
+import { useEffect, useRef } from "react";
+import { EditorState } from "@codemirror/state";
+import { EditorView, keymap, placeholder as placeholderText } from "@codemirror/view";
+import { defaultKeymap, history, historyKeymap } from "@codemirror/commands";
+import { indentOnInput } from "@codemirror/language";
+import { linter, lintGutter, type Diagnostic } from "@codemirror/lint";
+import { xml } from "@codemirror/lang-xml";
+import { formatXml } from "@shared/xml-converter";
+import { getXmlEnvironment } from "@shared/xml-environment";
+import { XmlParseError } from "@shared/xml-errors";
+import { baseExtensions, parseErrorDiagnostic } from "@/lib/codemirror";
+import { markSourceMatches, revealSource, sourceHighlight, sourcePathAt } from "@/lib/source-map";
+import { cn } from "@/lib/utils";
+
+interface XmlEditorProps {
+  /** Id of the editable area, for a <label htmlFor> */
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  /** Element or attribute to jump to and mark, by path. A new object jumps again. */
+  reveal?: { path: string } | null;
+  /** Paths of elements and attributes to mark, e.g. query matches */
+  matches?: string[];
+  /** Receives the path of the element or attribute at the cursor as it moves */
+  onCursorPath?: (path: string | null) => void;
+}
+
+// Validation waits for a pause in typing
+const LINT_DELAY = 500;
+
+// Larger documents are not validated as they are typed, parsing them would
+// block the page. Converting them still reports errors.
+const MAX_LINT_LENGTH = 1024 * 1024;
+
+/**
+ * Marks the first well-formedness error where the parser found it
+ */
+const xmlLinter = linter(
+  (view): Diagnostic[] => {
+    if (view.state.doc.length > MAX_LINT_LENGTH) return [];
+    const text = view.state.doc.toString();
+    if (!text.trim()) return [];
+
+    try {
+      getXmlEnvironment().parse(text);
+      return [];
+    } catch (error) {
+      return error instanceof XmlParseError ? [parseErrorDiagnostic(view.state.doc, error)] : [];
+    }
+  },
+  { delay: LINT_DELAY },
+);
+
+/**
+ * Replaces the document with its formatted version, as one undoable change
+ */
+function formatDocument(view: EditorView): boolean {
+  const text = view.state.doc.toString();
+  const formatted = formatXml(text);
+  if (formatted !== text) {
+    view.dispatch({ changes: { from: 0, to: text.length, insert: formatted } });
+  }
+  return true;
+}
+
+/**
+ * XML code editor with highlighting, tag matching, auto-closed tags,
+ * folding and inline parse errors. Shift-Alt-F formats the document.
+ */
+export default function XmlEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  className,
+  reveal,
+  matches,
+  onCursorPath,
+}: XmlEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onCursorPathRef = useRef(onCursorPath);
+  onCursorPathRef.current = onCursorPath;
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          baseExtensions(),
+          history(),
+          indentOnInput(),
+          xml(),
+          lintGutter(),
+          xmlLinter,
+          sourceHighlight,
+          placeholderText(placeholder ?? ""),
+          keymap.of([{ key: "Shift-Alt-f", run: formatDocument }, ...defaultKeymap, ...historyKeymap]),
+          EditorView.contentAttributes.of(id ? { id } : {}),
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+            if (update.selectionSet && onCursorPathRef.current) {
+              onCursorPathRef.current(sourcePathAt(update.state, update.state.selection.main.head));
+            }
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+    // The editor is created once, value changes are applied below
+  }, []);
+
+  // Apply changes made outside the editor, e.g. an uploaded file or a reset
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && value !== view.state.doc.toString()) {
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (viewRef.current && reveal) revealSource(viewRef.current, reveal.path);
+  }, [reveal]);
+
+  useEffect(() => {
+    if (viewRef.current) markSourceMatches(viewRef.current, matches ?? []);
+  }, [matches]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(
+        "rounded-md border border-input overflow-hidden focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2 [&_.cm-editor]:h-full",
+        className,
+      )}
+    />
+  );
+}
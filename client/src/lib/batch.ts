@@ -0,0 +1,184 @@
+import JSZip from "jszip";
+import { createHtmlDocument } from "@shared/xml-converter";
+import { escapeHtml } from "@shared/html-sanitizer";
+
+/** An XML file to convert, with its path in the folder or archive it came from */
+export interface BatchFile {
+  path: string;
+  file: Blob;
+}
+
+export type BatchStatus = "queued" | "converting" | "done" | "error";
+
+export interface BatchItem extends BatchFile {
+  status: BatchStatus;
+  /** Formatted body HTML, once converted */
+  html?: string;
+  error?: string;
+}
+
+function isXmlPath(path: string): boolean {
+  return path.toLowerCase().endsWith(".xml");
+}
+
+function isZipPath(path: string): boolean {
+  return path.toLowerCase().endsWith(".zip");
+}
+
+/**
+ * Turns an archive entry name into a relative path, as names are used for
+ * the output files. Leading "/", "." and ".." segments are dropped, null
+ * means the name still leads outside the archive, e.g. "a/../../x.xml".
+ */
+function normalizeEntryPath(name: string): string | null {
+  const segments = name.split(/[\\/]+/);
+  // Drive letters and leading segments that climb out of the root
+  while (segments.length > 0 && /^(|\.|\.\.|[a-zA-Z]:)$/.test(segments[0])) {
+    segments.shift();
+  }
+
+  const resolved: string[] = [];
+  for (const segment of segments) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (resolved.length === 0) return null;
+      resolved.pop();
+    } else {
+      resolved.push(segment);
+    }
+  }
+  return resolved.length > 0 ? resolved.join("/") : null;
+}
+
+/**
+ * Reads the XML files in an archive, skipping folders, macOS metadata and
+ * entries whose names lead outside it
+ */
+async function expandZip(zipFile: Blob): Promise<BatchFile[]> {
+  const zip = await JSZip.loadAsync(await zipFile.arrayBuffer());
+  const entries = Object.values(zip.files).flatMap((entry) => {
+    const path = normalizeEntryPath(entry.name);
+    return !entry.dir && path && isXmlPath(path) && !path.startsWith("__MACOSX/") ? [{ path, entry }] : [];
+  });
+  return Promise.all(entries.map(async ({ path, entry }) => ({ path, file: await entry.async("blob") })));
+}
+
+/**
+ * Lists the files in a dropped folder and its subfolders
+ */
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<{ path: string; file: File }[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the entries in batches, an empty batch ends the list
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+
+  const files = await Promise.all(entries.map((entry) => readEntry(entry)));
+  return files.flat();
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<{ path: string; file: File }[]> {
+  if (entry.isDirectory) {
+    return readDirectory(entry as FileSystemDirectoryEntry);
+  }
+  const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+  return [{ path: entry.fullPath.replace(/^\//, ""), file }];
+}
+
+/**
+ * Lists the files of a drop, descending into dropped folders
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<{ path: string; file: File }[]> {
+  // Entries must be taken before the first await, the list is cleared afterwards
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ path: file.name, file }));
+  }
+  const files = await Promise.all(entries.map((entry) => readEntry(entry)));
+  return files.flat();
+}
+
+/**
+ * Whether a selection is converted as a batch rather than opened in the
+ * editor: several files, a folder or an archive
+ */
+export function isBatchSelection(files: { path: string }[]): boolean {
+  return files.length > 1 || files.some((file) => isZipPath(file.path) || file.path.includes("/"));
+}
+
+/**
+ * Collects the XML files to convert, expanding archives. Other files are
+ * ignored and repeated paths get a number, so every output path is unique.
+ */
+export async function collectXmlFiles(files: { path: string; file: File }[]): Promise<BatchFile[]> {
+  const collected: BatchFile[] = [];
+  for (const { path, file } of files) {
+    if (isZipPath(path)) {
+      collected.push(...(await expandZip(file)));
+    } else if (isXmlPath(path)) {
+      collected.push({ path, file });
+    }
+  }
+
+  // Output names are compared case-insensitively, as they would be once unpacked on Windows or macOS
+  const outputKey = (path: string) => htmlPathFor(path).toLowerCase();
+  const originals = new Set(collected.map((item) => outputKey(item.path)));
+  const used = new Set<string>();
+  return collected.map((item) => {
+    let path = item.path;
+    for (let count = 2; used.has(outputKey(path)); count++) {
+      path = item.path.replace(/\.xml$/i, ` (${count}).xml`);
+      // A number another file already has is skipped too
+      if (originals.has(outputKey(path))) path = item.path;
+    }
+    used.add(outputKey(path));
+    return path === item.path ? item : { ...item, path };
+  });
+}
+
+/**
+ * Output path of a converted file, mirroring its input path
+ */
+export function htmlPathFor(xmlPath: string): string {
+  const htmlPath = xmlPath.replace(/\.xml$/i, ".html");
+  // The generated index takes index.html at the top level
+  return htmlPath.toLowerCase() === "index.html" ? "index (page).html" : htmlPath;
+}
+
+function renderIndex(items: BatchItem[]): string {
+  const rows = items.map((item) => {
+    if (item.status === "done") {
+      const href = htmlPathFor(item.path).split("/").map(encodeURIComponent).join("/");
+      return `<li><a href="${escapeHtml(href)}">${escapeHtml(item.path)}</a></li>`;
+    }
+    const reason = item.status === "error" ? `failed: ${item.error}` : "not converted";
+    return `<li>${escapeHtml(item.path)} <em>(${escapeHtml(reason)})</em></li>`;
+  });
+  const converted = items.filter((item) => item.status === "done").length;
+
+  return createHtmlDocument(
+    `<h1>Converted files</h1>\n<p>${converted} of ${items.length} converted</p>\n<ul>\n${rows.join("\n")}\n</ul>`,
+    "Converted files",
+  );
+}
+
+/**
+ * Packs the converted files into a ZIP that mirrors the input folders, with
+ * an index.html linking every page and listing the failures
+ */
+export async function createBatchZip(items: BatchItem[]): Promise<Blob> {
+  const zip = new JSZip();
+  items.forEach((item) => {
+    if (item.status === "done" && item.html !== undefined) {
+      zip.file(htmlPathFor(item.path), createHtmlDocument(item.html, item.path));
+    }
+  });
+  zip.file("index.html", renderIndex(items));
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,93 @@
+import type { Extension, Text } from "@codemirror/state";
+import {
+  EditorView,
+  drawSelection,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+} from "@codemirror/view";
+import {
+  HighlightStyle,
+  bracketMatching,
+  foldGutter,
+  foldKeymap,
+  syntaxHighlighting,
+} from "@codemirror/language";
+import { highlightSelectionMatches, searchKeymap } from "@codemirror/search";
+import type { Diagnostic } from "@codemirror/lint";
+import { tags } from "@lezer/highlight";
+import type { XmlParseError } from "@shared/xml-errors";
+
+/**
+ * Syntax colors, from the --code-* variables in index.css so they follow
+ * the light and dark themes
+ */
+const highlightStyle = HighlightStyle.define([
+  { tag: [tags.tagName, tags.angleBracket], color: "hsl(var(--code-tag))" },
+  { tag: tags.attributeName, color: "hsl(var(--code-attribute))" },
+  { tag: [tags.attributeValue, tags.string], color: "hsl(var(--code-string))" },
+  { tag: tags.character, color: "hsl(var(--code-string))", fontWeight: "bold" },
+  { tag: [tags.comment, tags.blockComment], color: "hsl(var(--code-comment))", fontStyle: "italic" },
+  { tag: [tags.processingInstruction, tags.documentMeta, tags.special(tags.string)], color: "hsl(var(--code-meta))" },
+  { tag: tags.invalid, color: "hsl(var(--destructive))" },
+]);
+
+const theme = EditorView.theme({
+  "&": {
+    fontSize: "0.875rem",
+    backgroundColor: "hsl(var(--muted) / 0.4)",
+    color: "hsl(var(--foreground))",
+  },
+  "&.cm-focused": { outline: "none" },
+  ".cm-scroller": { fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace" },
+  ".cm-gutters": {
+    backgroundColor: "transparent",
+    color: "hsl(var(--muted-foreground))",
+    border: "none",
+  },
+  ".cm-activeLineGutter": { backgroundColor: "hsl(var(--muted))" },
+  "&.cm-focused .cm-matchingBracket": { backgroundColor: "hsl(var(--primary) / 0.2)" },
+  ".cm-selectionMatch": { backgroundColor: "hsl(var(--primary) / 0.15)" },
+  ".cm-placeholder": { color: "hsl(var(--muted-foreground))" },
+});
+
+/**
+ * Extensions shared by the XML editor and the read-only code previews:
+ * line numbers, folding, tag matching, search and highlighting
+ */
+export function baseExtensions(): Extension[] {
+  return [
+    lineNumbers(),
+    highlightActiveLineGutter(),
+    foldGutter(),
+    highlightSpecialChars(),
+    drawSelection(),
+    bracketMatching(),
+    highlightSelectionMatches(),
+    syntaxHighlighting(highlightStyle),
+    keymap.of([...foldKeymap, ...searchKeymap]),
+    theme,
+  ];
+}
+
+/**
+ * Places a parse error in the document. Errors without a location mark the
+ * first line.
+ */
+export function parseErrorDiagnostic(doc: Text, error: XmlParseError): Diagnostic {
+  const line = doc.line(Math.min(Math.max(error.line, 1), doc.lines));
+  if (error.line < 1) {
+    return { from: line.from, to: line.to, severity: "error", message: error.message };
+  }
+
+  // Underline the character at the column, or the one before it at the end of a line
+  const from = Math.min(line.from + Math.max(error.column - 1, 0), line.to);
+  const to = Math.min(from + 1, line.to);
+  return {
+    from: to > from ? from : Math.max(line.from, from - 1),
+    to: to > from ? to : from,
+    severity: "error",
+    message: error.message,
+  };
+}
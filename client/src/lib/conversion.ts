@@ -0,0 +1,187 @@
+import type { ConvertOptions } from "@shared/xml-converter";
+import type { RenderExplanation } from "@shared/render-mode";
+import { XmlParseError, type XmlParseErrorDetails } from "@shared/xml-errors";
+
+/** Steps of a conversion, reported as they finish */
+export type ConversionStage = "parsed" | "converted" | "formatted";
+
+export const CONVERSION_STAGES: ConversionStage[] = ["parsed", "converted", "formatted"];
+
+/** Options the worker can receive, functions and the environment do not survive postMessage */
+export type WorkerConvertOptions = Omit<ConvertOptions, "environment" | "onParsed" | "onExplained">;
+
+export type ConversionRequest =
+  /** Built-in conversion of an XML document, formatSource formats the XML for display as well */
+  | { kind: "convert"; xml: string; options: WorkerConvertOptions; formatSource?: boolean }
+  /**
+   * Formatting only, for XSLT output produced on the main thread and for
+   * downloads. xml is the source the HTML came from, formatted as well.
+   */
+  | { kind: "format"; html: string; xml?: string }
+  /** Streaming conversion of a table or feed file too large to load */
+  | { kind: "stream"; file: File; options: WorkerConvertOptions };
+
+export interface ConversionResult {
+  html: string;
+  formattedHtml: string;
+  /** The source XML formatted for display, empty unless it was asked for */
+  formattedXml: string;
+  /** Why the renderer was chosen, only for built-in conversions */
+  explanation: RenderExplanation | null;
+}
+
+/**
+ * Output of a streaming conversion. Concatenated, the parts form the
+ * converted HTML.
+ */
+export interface StreamedHtml {
+  /** Markup before the rows, null until the first record is read */
+  start: string | null;
+  /** Table rows or feed cards, added as the file is read */
+  rows: string[];
+  /** Markup after the rows, null until the file is read */
+  end: string | null;
+}
+
+export type ConversionMessage =
+  | { type: "progress"; stage: ConversionStage }
+  | { type: "done"; result: ConversionResult }
+  | { type: "stream-start"; html: string }
+  | { type: "stream-rows"; rows: string[]; bytesRead: number }
+  | { type: "stream-end"; html: string }
+  | {
+      type: "error";
+      message: string;
+      parseError?: XmlParseErrorDetails;
+    };
+
+/**
+ * Raised by a job's result when it was cancelled
+ */
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super("Conversion cancelled");
+    this.name = "ConversionCancelledError";
+  }
+}
+
+export interface ConversionJob<T = ConversionResult> {
+  result: Promise<T>;
+  /** Stops the worker, the result rejects with ConversionCancelledError */
+  cancel(): void;
+}
+
+export interface StreamingJob extends ConversionJob<StreamedHtml> {
+  /** Output so far, updated in place as the worker reports rows */
+  output: StreamedHtml;
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL("../workers/conversion.worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+function toError(message: Extract<ConversionMessage, { type: "error" }>): Error {
+  return message.parseError ? XmlParseError.fromJSON(message.parseError) : new Error(message.message);
+}
+
+/**
+ * Runs a conversion in a Web Worker so large documents do not block the
+ * page. Each job gets its own worker, which is terminated when the job
+ * finishes or is cancelled.
+ * @param onProgress Called as each stage finishes
+ */
+export function startConversion(
+  request: Exclude<ConversionRequest, { kind: "stream" }>,
+  onProgress?: (stage: ConversionStage) => void,
+): ConversionJob {
+  const worker = createWorker();
+  let cancel = () => {};
+
+  const result = new Promise<ConversionResult>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new ConversionCancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ConversionMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.stage);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === "done") {
+        resolve(message.result);
+      } else if (message.type === "error") {
+        reject(toError(message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "The conversion worker failed"));
+    };
+  });
+
+  worker.postMessage(request);
+  return { result, cancel };
+}
+
+/**
+ * Converts a file in a Web Worker while it is read, for tables and feeds
+ * too large to load as a document. Rows are added to the job's output as
+ * they are converted.
+ * @param onUpdate Called when output arrives, with the bytes read so far
+ */
+export function startStreamingConversion(
+  file: File,
+  options: WorkerConvertOptions,
+  onUpdate?: (bytesRead: number) => void,
+): StreamingJob {
+  const worker = createWorker();
+  const output: StreamedHtml = { start: null, rows: [], end: null };
+  let cancel = () => {};
+
+  const result = new Promise<StreamedHtml>((resolve, reject) => {
+    cancel = () => {
+      worker.terminate();
+      reject(new ConversionCancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<ConversionMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "stream-start":
+          output.start = message.html;
+          onUpdate?.(0);
+          break;
+        case "stream-rows":
+          // Pushed one by one, spreading a large batch could overflow the stack
+          message.rows.forEach((row) => output.rows.push(row));
+          onUpdate?.(message.bytesRead);
+          break;
+        case "stream-end":
+          worker.terminate();
+          output.end = message.html;
+          onUpdate?.(file.size);
+          resolve(output);
+          break;
+        case "error":
+          worker.terminate();
+          reject(toError(message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "The conversion worker failed"));
+    };
+  });
+
+  worker.postMessage({ kind: "stream", file, options } satisfies ConversionRequest);
+  return { output, result, cancel };
+}
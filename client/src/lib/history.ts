@@ -0,0 +1,224 @@
+/**
+ * Past conversions, kept in IndexedDB since localStorage is too small for
+ * large documents. Entries and their XML are separate stores, so listing
+ * the history never loads the documents.
+ */
+
+import { SaxParser } from "@shared/sax-parser";
+import type { WorkerConvertOptions } from "./conversion";
+
+/** The options a conversion ran with, xslt holds the stylesheet when XSLT mode was on */
+export interface HistorySettings extends WorkerConvertOptions {
+  xslt?: string;
+}
+
+export interface HistoryEntry {
+  id: string;
+  /** When the entry was converted, in milliseconds since the epoch */
+  createdAt: number;
+  /** Root element and first title, or the name the user gave it */
+  title: string;
+  /** Size of the XML in bytes */
+  size: number;
+  settings: HistorySettings;
+  pinned: boolean;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = "xml-converter";
+const DB_VERSION = 1;
+const ENTRY_STORE = "history";
+const DOCUMENT_STORE = "historyDocuments";
+
+// Older unpinned entries are removed beyond this many
+const MAX_ENTRIES = 50;
+
+// Only the start of a document is read for its title
+const TITLE_SCAN_CHUNK = 64 * 1024;
+const MAX_TITLE_LENGTH = 60;
+
+let database: Promise<IDBDatabase> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ENTRY_STORE, { keyPath: "id" });
+        request.result.createObjectStore(DOCUMENT_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open is retried on the next call
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+/**
+ * Runs requests against both stores in one transaction, resolving once it
+ * has committed
+ */
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  run: (entries: IDBObjectStore, documents: IDBObjectStore) => Promise<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction([ENTRY_STORE, DOCUMENT_STORE], mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("The history could not be saved"));
+  });
+  const result = await run(transaction.objectStore(ENTRY_STORE), transaction.objectStore(DOCUMENT_STORE));
+  await committed;
+  return result;
+}
+
+function shorten(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > MAX_TITLE_LENGTH ? `${collapsed.slice(0, MAX_TITLE_LENGTH)}…` : collapsed;
+}
+
+/**
+ * Titles a document by its root element and the text of its first title
+ * element, e.g. "<rss> Release notes"
+ */
+export function describeDocument(xml: string): string {
+  let root: string | null = null;
+  let title: string | null = null;
+  let titleText: string | null = null;
+
+  const parser = new SaxParser({
+    openTag(name) {
+      root ??= name;
+      if (titleText === null && /(^|:)title$/i.test(name)) titleText = "";
+    },
+    text(text) {
+      if (titleText !== null && title === null) titleText += text;
+    },
+    cdata(text) {
+      if (titleText !== null && title === null) titleText += text;
+    },
+    closeTag() {
+      if (titleText !== null && title === null) title = shorten(titleText);
+    },
+  });
+
+  // Stop once both are known, or at the first error
+  try {
+    for (let start = 0; start < xml.length && title === null; start += TITLE_SCAN_CHUNK) {
+      parser.write(xml.slice(start, start + TITLE_SCAN_CHUNK));
+    }
+  } catch {
+    // Titles are best effort, the XML was valid enough to convert
+  }
+
+  if (!root) return "Untitled document";
+  return title ? `<${root}> ${title}` : `<${root}>`;
+}
+
+function byPinnedThenNewest(a: HistoryEntry, b: HistoryEntry): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.createdAt - a.createdAt;
+}
+
+/**
+ * Lists the entries, pinned ones first, then the newest first
+ */
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStores("readonly", (store) => requestResult<HistoryEntry[]>(store.getAll()));
+  return entries.sort(byPinnedThenNewest);
+}
+
+/**
+ * Records a conversion. Converting the same XML with the same settings again
+ * moves the existing entry to the top instead of adding another one.
+ */
+export async function addHistoryEntry(xml: string, settings: HistorySettings): Promise<HistoryEntry> {
+  const size = new Blob([xml]).size;
+  const settingsKey = JSON.stringify(settings);
+
+  return withStores("readwrite", async (entries, documents) => {
+    const existing = (await requestResult<HistoryEntry[]>(entries.getAll())).sort(byPinnedThenNewest);
+
+    for (const entry of existing) {
+      if (entry.size !== size || JSON.stringify(entry.settings) !== settingsKey) continue;
+      if ((await requestResult<string | undefined>(documents.get(entry.id))) === xml) {
+        const updated = { ...entry, createdAt: Date.now() };
+        await requestResult(entries.put(updated));
+        return updated;
+      }
+    }
+
+    const entry: HistoryEntry = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      createdAt: Date.now(),
+      title: describeDocument(xml),
+      size,
+      settings,
+      pinned: false,
+    };
+    await requestResult(entries.put(entry));
+    await requestResult(documents.put(xml, entry.id));
+
+    // The new entry is not in the list yet, so one less old entry is kept
+    const unpinned = existing.filter((other) => !other.pinned);
+    for (const stale of unpinned.slice(MAX_ENTRIES - 1)) {
+      await requestResult(entries.delete(stale.id));
+      await requestResult(documents.delete(stale.id));
+    }
+    return entry;
+  });
+}
+
+/**
+ * Renames or pins an entry
+ */
+export async function updateHistoryEntry(
+  id: string,
+  changes: Partial<Pick<HistoryEntry, "title" | "pinned">>,
+): Promise<void> {
+  await withStores("readwrite", async (entries) => {
+    const entry = await requestResult<HistoryEntry | undefined>(entries.get(id));
+    if (entry) await requestResult(entries.put({ ...entry, ...changes }));
+  });
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStores("readwrite", async (entries, documents) => {
+    await requestResult(entries.delete(id));
+    await requestResult(documents.delete(id));
+  });
+}
+
+/**
+ * Loads the XML of an entry, undefined when it was deleted meanwhile
+ */
+export async function loadHistoryXml(id: string): Promise<string | undefined> {
+  return withStores("readonly", (_entries, documents) => requestResult<string | undefined>(documents.get(id)));
+}
+
+/**
+ * How much of its storage quota the app uses, null when the browser does
+ * not tell
+ */
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota ? { usage, quota } : null;
+}
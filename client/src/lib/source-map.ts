@@ -0,0 +1,239 @@
+/**
+ * Connects the XML editor with output converted with the sourceMap option,
+ * whose elements carry the path of the XML they came from. Paths are
+ * resolved against the editor's syntax tree, so they follow the text as it
+ * is edited.
+ */
+
+import { StateEffect, StateField, type EditorState } from "@codemirror/state";
+import { Decoration, EditorView, type DecorationSet } from "@codemirror/view";
+import { ensureSyntaxTree, syntaxTree } from "@codemirror/language";
+import type { SyntaxNode } from "@lezer/common";
+import { SOURCE_PATH_ATTRIBUTE } from "@shared/source-map";
+
+/** Posted by the preview when an element is clicked */
+export interface SourceSelectMessage {
+  type: "xml-source-select";
+  path: string;
+}
+
+/** Posted to the preview to outline the output of an element, null clears it */
+export interface SourceHighlightMessage {
+  type: "xml-source-highlight";
+  path: string | null;
+}
+
+/** Posted to the preview to mark the output of query matches */
+export interface SourceMatchesMessage {
+  type: "xml-source-matches";
+  paths: string[];
+}
+
+/**
+ * Runs in the preview: reports clicked elements, outlines the ones the
+ * editor points at and marks query matches, opening the tree view down to
+ * them. Paths without output of their own fall back to their nearest
+ * ancestor that has some.
+ */
+export const SOURCE_MAP_SCRIPT = `
+  <style>
+    .xml-source-active { outline: 2px solid #3b82f6; outline-offset: 1px; }
+    .xml-source-match:not(details), details.xml-source-match > summary { background-color: rgba(250, 204, 21, 0.35); }
+  </style>
+  <script>
+  (function () {
+    var ATTRIBUTE = '${SOURCE_PATH_ATTRIBUTE}';
+    var active = [];
+    var matched = [];
+
+    var find = function (path) {
+      var nodes = [];
+      while (path && nodes.length === 0) {
+        nodes = Array.prototype.slice.call(document.querySelectorAll('[' + ATTRIBUTE + '="' + CSS.escape(path) + '"]'));
+        path = path.slice(0, path.lastIndexOf('/'));
+      }
+      return nodes;
+    };
+
+    var mark = function (nodes, className) {
+      nodes.forEach(function (node) {
+        node.classList.add(className);
+        for (var details = node.parentElement; details; details = details.parentElement) {
+          if (details.tagName === 'DETAILS') details.open = true;
+        }
+      });
+      if (nodes[0]) nodes[0].scrollIntoView({ block: 'nearest' });
+    };
+
+    document.addEventListener('click', function (event) {
+      var node = event.target.closest && event.target.closest('[' + ATTRIBUTE + ']');
+      if (node) parent.postMessage({ type: 'xml-source-select', path: node.getAttribute(ATTRIBUTE) }, '*');
+    });
+
+    window.addEventListener('message', function (event) {
+      var data = event.data || {};
+      if (data.type === 'xml-source-highlight') {
+        active.forEach(function (node) { node.classList.remove('xml-source-active'); });
+        active = find(data.path);
+        mark(active, 'xml-source-active');
+      } else if (data.type === 'xml-source-matches') {
+        matched.forEach(function (node) { node.classList.remove('xml-source-match'); });
+        matched = [];
+        data.paths.forEach(function (path) { matched = matched.concat(find(path)); });
+        mark(matched, 'xml-source-match');
+      }
+    });
+  })();
+  </script>
+`;
+
+/**
+ * Removes the source paths from converted HTML, for showing its source.
+ * Values are escaped, so a quote always ends one.
+ */
+export function stripSourcePaths(html: string): string {
+  return html.replace(new RegExp(`\\s+${SOURCE_PATH_ATTRIBUTE}="[^"]*"`, "g"), "");
+}
+
+// Parsing the whole document to find a path gives up after this long
+const PARSE_TIMEOUT = 500;
+
+function tagName(state: EditorState, element: SyntaxNode): string | null {
+  const name = (element.getChild("OpenTag") ?? element.getChild("SelfClosingTag"))?.getChild("TagName");
+  return name ? state.sliceDoc(name.from, name.to) : null;
+}
+
+/**
+ * Path step of an element, with its position when siblings share its name
+ */
+function elementStep(state: EditorState, element: SyntaxNode): string {
+  const name = tagName(state, element) ?? "";
+  const siblings = (element.parent?.getChildren("Element") ?? [element]).filter(
+    (sibling) => tagName(state, sibling) === name,
+  );
+  return siblings.length > 1 ? `${name}[${siblings.findIndex((sibling) => sibling.from === element.from) + 1}]` : name;
+}
+
+/**
+ * Path of the element or attribute at a position, as the converter writes it
+ */
+export function sourcePathAt(state: EditorState, pos: number): string | null {
+  let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, 1);
+  const steps: string[] = [];
+
+  const attribute = node.name === "Attribute" ? node : node.parent?.name === "Attribute" ? node.parent : null;
+  const attributeName = attribute?.getChild("AttributeName");
+  if (attributeName) {
+    steps.push(`@${state.sliceDoc(attributeName.from, attributeName.to)}`);
+  }
+
+  for (; node; node = node.parent) {
+    if (node.name === "Element") steps.unshift(elementStep(state, node));
+  }
+  return steps.length > 0 && !steps[0].startsWith("@") ? `/${steps.join("/")}` : null;
+}
+
+/**
+ * Finds the element or attribute a path points at
+ */
+export function sourceRange(state: EditorState, path: string): { from: number; to: number } | null {
+  const tree = ensureSyntaxTree(state, state.doc.length, PARSE_TIMEOUT) ?? syntaxTree(state);
+  let node: SyntaxNode = tree.topNode;
+
+  for (const step of path.split("/").filter(Boolean)) {
+    if (step.startsWith("@")) {
+      const tag = node.getChild("OpenTag") ?? node.getChild("SelfClosingTag");
+      const attribute = tag?.getChildren("Attribute").find((candidate) => {
+        const name = candidate.getChild("AttributeName");
+        return name && state.sliceDoc(name.from, name.to) === step.slice(1);
+      });
+      return attribute ? { from: attribute.from, to: attribute.to } : null;
+    }
+
+    const match = step.match(/^(.+?)(?:\[(\d+)\])?$/);
+    if (!match) return null;
+    const element = node.getChildren("Element").filter((child) => tagName(state, child) === match[1])[
+      Number(match[2] ?? 1) - 1
+    ];
+    if (!element) return null;
+    node = element;
+  }
+  return node === tree.topNode ? null : { from: node.from, to: node.to };
+}
+
+const setSourceHighlight = StateEffect.define<{ from: number; to: number } | null>();
+
+const sourceHighlightMark = Decoration.mark({ class: "cm-sourceHighlight" });
+
+const setSourceMatches = StateEffect.define<{ from: number; to: number }[]>();
+
+const sourceMatchMark = Decoration.mark({ class: "cm-sourceMatch" });
+
+// Matches beyond this many are listed but not marked, finding each one walks the tree
+const MAX_MARKED_MATCHES = 500;
+
+/**
+ * Marks the element last revealed from the preview, until the next edit,
+ * and the matches of a query
+ */
+export const sourceHighlight = [
+  StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(highlight, transaction) {
+      for (const effect of transaction.effects) {
+        if (effect.is(setSourceHighlight)) {
+          return effect.value ? Decoration.set(sourceHighlightMark.range(effect.value.from, effect.value.to)) : Decoration.none;
+        }
+      }
+      return transaction.docChanged ? Decoration.none : highlight;
+    },
+    provide: (field) => EditorView.decorations.from(field),
+  }),
+  StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update(matches, transaction) {
+      for (const effect of transaction.effects) {
+        if (effect.is(setSourceMatches)) {
+          return Decoration.set(
+            effect.value.map((range) => sourceMatchMark.range(range.from, range.to)),
+            true,
+          );
+        }
+      }
+      return matches.map(transaction.changes);
+    },
+    provide: (field) => EditorView.decorations.from(field),
+  }),
+  EditorView.baseTheme({
+    ".cm-sourceHighlight": { backgroundColor: "hsl(var(--primary) / 0.12)" },
+    ".cm-sourceMatch": { backgroundColor: "rgba(250, 204, 21, 0.3)" },
+  }),
+];
+
+/**
+ * Moves the cursor to the element or attribute at a path, marks it and
+ * scrolls it into view
+ * @returns Whether the path was found
+ */
+export function revealSource(view: EditorView, path: string): boolean {
+  const range = sourceRange(view.state, path);
+  if (!range) return false;
+
+  view.dispatch({
+    selection: { anchor: range.from },
+    effects: [setSourceHighlight.of(range), EditorView.scrollIntoView(range.from, { y: "center" })],
+  });
+  return true;
+}
+
+/**
+ * Marks the elements and attributes at the given paths, replacing the
+ * previous marks
+ */
+export function markSourceMatches(view: EditorView, paths: string[]): void {
+  const ranges = paths
+    .slice(0, MAX_MARKED_MATCHES)
+    .map((path) => sourceRange(view.state, path))
+    .filter((range): range is { from: number; to: number } => range !== null);
+  view.dispatch({ effects: setSourceMatches.of(ranges) });
+}
@@ -0,0 +1,141 @@
+import {
+  ATTRIBUTE_NODE,
+  CDATA_SECTION_NODE,
+  COMMENT_NODE,
+  ELEMENT_NODE,
+  PROCESSING_INSTRUCTION_NODE,
+} from "@shared/dom-utils";
+import { sourcePath } from "@shared/source-map";
+import { getXmlEnvironment } from "@shared/xml-environment";
+
+export type QueryLanguage = "xpath" | "css";
+
+export interface QueryMatch {
+  /** Location path, see source-map.ts. Text and comments have their element's path. */
+  path: string;
+  /** What matched, e.g. title, @id or text() */
+  label: string;
+  /** The text or value, shortened */
+  preview: string;
+  node: Node;
+}
+
+/** XPath expressions give nodes or, e.g. for count(), a single value */
+export type QueryResult =
+  | { type: "nodes"; matches: QueryMatch[] }
+  | { type: "value"; value: string | number | boolean };
+
+const PREVIEW_LENGTH = 80;
+
+/** Prefix for the root element's default namespace in XPath, e.g. //d:entry in an Atom feed */
+export const DEFAULT_NAMESPACE_PREFIX = "d";
+
+// Several matches are converted under this root, so repeated elements become a table
+const SELECTION_ROOT = "selection";
+
+function shorten(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > PREVIEW_LENGTH ? `${collapsed.slice(0, PREVIEW_LENGTH)}…` : collapsed;
+}
+
+function describeMatch(node: Node): QueryMatch | null {
+  if (node.nodeType === ELEMENT_NODE) {
+    return { path: sourcePath(node as Element), label: node.nodeName, preview: shorten(node.textContent || ""), node };
+  }
+  if (node.nodeType === ATTRIBUTE_NODE) {
+    return { path: sourcePath(node as Attr), label: `@${node.nodeName}`, preview: shorten(node.nodeValue || ""), node };
+  }
+
+  // Text, comments and instructions are located by their element
+  const parent = node.parentNode;
+  if (!parent || parent.nodeType !== ELEMENT_NODE) return null;
+  const label =
+    node.nodeType === COMMENT_NODE
+      ? "comment()"
+      : node.nodeType === PROCESSING_INSTRUCTION_NODE
+        ? "processing-instruction()"
+        : node.nodeType === CDATA_SECTION_NODE
+          ? "CDATA"
+          : "text()";
+  return { path: sourcePath(parent as Element), label, preview: shorten(node.nodeValue || ""), node };
+}
+
+/**
+ * Resolves the prefixes declared anywhere in the document, the first
+ * declaration of a prefix wins. XPath 1.0 has no default namespace, so
+ * DEFAULT_NAMESPACE_PREFIX stands for the root's unless the document
+ * declares that prefix itself.
+ */
+function namespaceResolver(xmlDoc: Document): XPathNSResolver {
+  const namespaces = new Map<string, string>();
+  const defaultNamespace = xmlDoc.documentElement?.lookupNamespaceURI(null);
+  Array.from(xmlDoc.getElementsByTagName("*")).forEach((element) => {
+    Array.from(element.attributes).forEach((attr) => {
+      if (attr.name.startsWith("xmlns:") && !namespaces.has(attr.localName)) {
+        namespaces.set(attr.localName, attr.value);
+      }
+    });
+  });
+  if (defaultNamespace && !namespaces.has(DEFAULT_NAMESPACE_PREFIX)) {
+    namespaces.set(DEFAULT_NAMESPACE_PREFIX, defaultNamespace);
+  }
+  return (prefix) => namespaces.get(prefix ?? "") ?? null;
+}
+
+function evaluateXPath(xmlDoc: Document, expression: string): QueryResult {
+  const result = xmlDoc.evaluate(expression, xmlDoc, namespaceResolver(xmlDoc), XPathResult.ANY_TYPE, null);
+  switch (result.resultType) {
+    case XPathResult.NUMBER_TYPE:
+      return { type: "value", value: result.numberValue };
+    case XPathResult.STRING_TYPE:
+      return { type: "value", value: result.stringValue };
+    case XPathResult.BOOLEAN_TYPE:
+      return { type: "value", value: result.booleanValue };
+  }
+
+  const matches: QueryMatch[] = [];
+  for (let node = result.iterateNext(); node; node = result.iterateNext()) {
+    // The document node stands for its root element
+    const match = describeMatch(node === xmlDoc ? xmlDoc.documentElement : node);
+    if (match) matches.push(match);
+  }
+  return { type: "nodes", matches };
+}
+
+/**
+ * Runs an XPath 1.0 expression or a CSS selector against a document parsed
+ * in the browser. Prefixes in XPath are those declared in the document.
+ * @throws The browser's error for an invalid expression
+ */
+export function queryDocument(xmlDoc: Document, language: QueryLanguage, expression: string): QueryResult {
+  if (language === "xpath") {
+    return evaluateXPath(xmlDoc, expression);
+  }
+  const matches = Array.from(xmlDoc.querySelectorAll(expression))
+    .map((element) => describeMatch(element))
+    .filter((match): match is QueryMatch => match !== null);
+  return { type: "nodes", matches };
+}
+
+/**
+ * The matched elements as a document of their own, for converting only
+ * them. Elements inside another match are part of it already. Returns null
+ * when no element matched.
+ */
+export function selectionXml(matches: QueryMatch[]): string | null {
+  const elements = matches
+    .map((match) => match.node)
+    .filter((node): node is Element => node.nodeType === ELEMENT_NODE);
+  const matched = new Set<Node>(elements);
+  const outermost = elements.filter((element) => {
+    for (let ancestor = element.parentNode; ancestor; ancestor = ancestor.parentNode) {
+      if (matched.has(ancestor)) return false;
+    }
+    return true;
+  });
+  if (outermost.length === 0) return null;
+
+  const environment = getXmlEnvironment();
+  if (outermost.length === 1) return environment.serialize(outermost[0]);
+  return `<${SELECTION_ROOT}>${outermost.map((element) => environment.serialize(element)).join("")}</${SELECTION_ROOT}>`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Converts and formats documents off the main thread, see startConversion
+ * and startStreamingConversion. Workers have no DOMParser, so xmldom is
+ * used for parsing.
+ */
+
+import { convertXmlToHtml, formatHtml, formatXml } from "@shared/xml-converter";
+import { xmldomEnvironment } from "@shared/xmldom-environment";
+import { XmlParseError } from "@shared/xml-errors";
+import { StreamConverter } from "@shared/stream-converter";
+import type { RenderExplanation } from "@shared/render-mode";
+import type { ConversionMessage, ConversionRequest, WorkerConvertOptions } from "@/lib/conversion";
+
+function post(message: ConversionMessage) {
+  self.postMessage(message);
+}
+
+/**
+ * Reads the file in chunks, posting the rows converted from each chunk
+ */
+async function stream(file: File, options: WorkerConvertOptions): Promise<void> {
+  let rows: string[] = [];
+  let end = "";
+  const converter = new StreamConverter(
+    {
+      start: (html) => post({ type: "stream-start", html }),
+      row: (html) => rows.push(html),
+      end: (html) => {
+        end = html;
+      },
+    },
+    { ...options, environment: xmldomEnvironment },
+  );
+
+  let bytesRead = 0;
+  const flush = () => {
+    if (rows.length === 0) return;
+    post({ type: "stream-rows", rows, bytesRead });
+    rows = [];
+  };
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    converter.write(decoder.decode(value, { stream: true }));
+    flush();
+  }
+
+  converter.write(decoder.decode());
+  converter.close();
+  flush();
+  post({ type: "stream-end", html: end });
+}
+
+async function handle(request: ConversionRequest): Promise<void> {
+  if (request.kind === "stream") {
+    return stream(request.file, request.options);
+  }
+
+  let html = request.kind === "format" ? request.html : "";
+  let explanation: RenderExplanation | null = null;
+
+  if (request.kind === "convert") {
+    html = await convertXmlToHtml(request.xml, {
+      ...request.options,
+      environment: xmldomEnvironment,
+      onParsed: () => post({ type: "progress", stage: "parsed" }),
+      onExplained: (result) => {
+        explanation = result;
+      },
+    });
+  }
+  post({ type: "progress", stage: "converted" });
+
+  const formattedHtml = formatHtml(html);
+  const source = request.kind === "convert" ? (request.formatSource ? request.xml : "") : request.xml;
+  const formattedXml = formatXml(source ?? "", xmldomEnvironment);
+  post({ type: "progress", stage: "formatted" });
+
+  post({ type: "done", result: { html, formattedHtml, formattedXml, explanation } });
+}
+
+self.addEventListener("message", (event: MessageEvent<ConversionRequest>) => {
+  handle(event.data).catch((error: unknown) => {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      parseError: error instanceof XmlParseError ? error.toJSON() : undefined,
+    });
+  });
+});
@@ -1,6 +1,24 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
+import { once } from "events";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import {
+  convertRequestSchema,
+  insertMappingProfileSchema,
+  streamConvertQuerySchema,
+  type ApiError,
+  type ConvertResponse,
+} from "@shared/schema";
+import { convertXmlToHtml, formatHtml, type ConvertOptions } from "@shared/xml-converter";
+import { xmldomEnvironment } from "@shared/xmldom-environment";
+import { XmlParseError } from "@shared/xml-errors";
+import { StreamConverter } from "@shared/stream-converter";
+import { transformXmlToHtml, XsltError } from "@shared/xslt";
+import type { RenderExplanation } from "@shared/render-mode";
+
+// Same limit as the client-side file uploader
+const MAX_XML_SIZE = "10mb";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,6 +27,233 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  // Accepts either a raw XML body (text/xml, application/xml) or JSON of the
+  // form { xml, pretty, trustedHtml, rules, profile, prefixMode, namespaceLabels,
+  // interactiveTables, renderMode, tablePath, tableDetection, cdataMode,
+  // commentMode, sourceMap, explain, xslt }.
+  // For raw bodies, the options are set via ?pretty=true, ?trustedHtml=true,
+  // ?profile=<name>, ?prefixMode=strip|keep|label, ?interactiveTables=true,
+  // ?renderMode=<mode>, ?tablePath=<path>, ?cdataMode=text|html,
+  // ?commentMode=drop|html|visible, ?sourceMap=true and ?explain=true
+  app.post(
+    "/api/convert",
+    express.text({ type: ["text/xml", "application/xml"], limit: MAX_XML_SIZE }),
+    async (req, res) => {
+      const body =
+        typeof req.body === "string"
+          ? {
+              xml: req.body,
+              pretty: req.query.pretty === "true",
+              trustedHtml: req.query.trustedHtml === "true",
+              profile: req.query.profile,
+              prefixMode: req.query.prefixMode,
+              interactiveTables: req.query.interactiveTables === "true",
+              renderMode: req.query.renderMode,
+              tablePath: req.query.tablePath,
+              cdataMode: req.query.cdataMode,
+              commentMode: req.query.commentMode,
+              sourceMap: req.query.sourceMap === "true",
+              explain: req.query.explain === "true",
+            }
+          : req.body;
+
+      const parsed = convertRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        const error: ApiError = {
+          code: "INVALID_REQUEST",
+          message: fromZodError(parsed.error).message,
+        };
+        return res.status(400).json(error);
+      }
+
+      let mappingRules = parsed.data.rules;
+      if (!mappingRules && parsed.data.profile) {
+        const profile = await storage.getMappingProfile(parsed.data.profile);
+        if (!profile) {
+          const error: ApiError = {
+            code: "INVALID_REQUEST",
+            message: `Unknown mapping profile "${parsed.data.profile}"`,
+          };
+          return res.status(400).json(error);
+        }
+        mappingRules = profile.rules;
+      }
+
+      try {
+        const convertOptions: ConvertOptions = {
+          environment: xmldomEnvironment,
+          trustedHtml: parsed.data.trustedHtml,
+          mappingRules,
+          prefixMode: parsed.data.prefixMode,
+          namespaceLabels: parsed.data.namespaceLabels,
+          interactiveTables: parsed.data.interactiveTables,
+          renderMode: parsed.data.renderMode,
+          tablePath: parsed.data.tablePath,
+          tableDetection: parsed.data.tableDetection,
+          cdataMode: parsed.data.cdataMode,
+          commentMode: parsed.data.commentMode,
+          sourceMap: parsed.data.sourceMap,
+        };
+
+        // Stylesheets referenced by URL or path are not fetched on the server
+        let explanation: RenderExplanation | undefined;
+        const html =
+          parsed.data.xslt !== undefined
+            ? await transformXmlToHtml(parsed.data.xml, {
+                stylesheet: parsed.data.xslt,
+                environment: xmldomEnvironment,
+                trustedHtml: parsed.data.trustedHtml,
+              })
+            : await convertXmlToHtml(parsed.data.xml, {
+                ...convertOptions,
+                onExplained: (result) => {
+                  explanation = result;
+                },
+              });
+        const response: ConvertResponse = {
+          html: parsed.data.pretty ? formatHtml(html) : html,
+        };
+        if (parsed.data.explain && explanation) {
+          response.explanation = explanation;
+        }
+        res.json(response);
+      } catch (err) {
+        if (err instanceof XmlParseError) {
+          const error: ApiError = {
+            code: "INVALID_XML",
+            message: err.message,
+            details: err.toJSON(),
+          };
+          return res.status(422).json(error);
+        }
+
+        if (err instanceof XsltError) {
+          const error: ApiError = { code: "INVALID_XSLT", message: err.message };
+          return res.status(422).json(error);
+        }
+
+        const error: ApiError = {
+          code: "CONVERSION_FAILED",
+          message: err instanceof Error ? err.message : "Conversion failed",
+        };
+        res.status(500).json(error);
+      }
+    },
+  );
+
+  // Converts a raw XML body of any size as it arrives and responds with the
+  // HTML in chunks, for tables and feeds too large for /api/convert. The body
+  // must be sent as text/xml or application/xml, other types get a 415.
+  // Options are set via ?trustedHtml=true, ?prefixMode=strip|keep|label and
+  // ?tablePath=<path>. Errors found before any output get the usual JSON
+  // error response, later ones abort the response.
+  app.post("/api/convert/stream", async (req, res) => {
+    // Other bodies, e.g. JSON, have already been read by the body parsers
+    if (!req.is(["text/xml", "application/xml"])) {
+      const error: ApiError = {
+        code: "INVALID_REQUEST",
+        message: "The body must be XML sent as text/xml or application/xml",
+      };
+      return res.status(415).json(error);
+    }
+
+    const parsed = streamConvertQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      const error: ApiError = {
+        code: "INVALID_REQUEST",
+        message: fromZodError(parsed.error).message,
+      };
+      return res.status(400).json(error);
+    }
+
+    let html = "";
+    const append = (part: string) => {
+      html += part;
+    };
+    const converter = new StreamConverter(
+      { start: append, row: append, end: append },
+      { environment: xmldomEnvironment, ...parsed.data },
+    );
+
+    const flush = async () => {
+      if (!html) return;
+      if (!res.headersSent) res.type("html");
+      if (!res.write(html)) await once(res, "drain");
+      html = "";
+    };
+
+    try {
+      req.setEncoding("utf8");
+      for await (const chunk of req) {
+        converter.write(chunk as string);
+        await flush();
+      }
+      converter.close();
+      await flush();
+      res.end();
+    } catch (err) {
+      if (res.headersSent) return res.destroy();
+
+      if (err instanceof XmlParseError) {
+        const error: ApiError = {
+          code: "INVALID_XML",
+          message: err.message,
+          details: err.toJSON(),
+        };
+        return res.status(422).json(error);
+      }
+
+      const error: ApiError = {
+        code: "CONVERSION_FAILED",
+        message: err instanceof Error ? err.message : "Conversion failed",
+      };
+      res.status(500).json(error);
+    }
+  });
+
+  app.get("/api/profiles", async (_req, res) => {
+    res.json(await storage.getMappingProfiles());
+  });
+
+  app.get("/api/profiles/:name", async (req, res) => {
+    const profile = await storage.getMappingProfile(req.params.name);
+    if (!profile) {
+      const error: ApiError = {
+        code: "NOT_FOUND",
+        message: `Unknown mapping profile "${req.params.name}"`,
+      };
+      return res.status(404).json(error);
+    }
+    res.json(profile);
+  });
+
+  // Creates the profile or replaces its rules
+  app.put("/api/profiles/:name", async (req, res) => {
+    const parsed = insertMappingProfileSchema.safeParse({
+      ...req.body,
+      name: req.params.name,
+    });
+    if (!parsed.success) {
+      const error: ApiError = {
+        code: "INVALID_REQUEST",
+        message: fromZodError(parsed.error).message,
+      };
+      return res.status(400).json(error);
+    }
+    res.json(await storage.saveMappingProfile(parsed.data));
+  });
+
+  app.delete("/api/profiles/:name", async (req, res) => {
+    if (!(await storage.deleteMappingProfile(req.params.name))) {
+      const error: ApiError = {
+        code: "NOT_FOUND",
+        message: `Unknown mapping profile "${req.params.name}"`,
+      };
+      return res.status(404).json(error);
+    }
+    res.status(204).end();
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -1,4 +1,10 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  type User,
+  type InsertUser,
+  type MappingProfile,
+  type InsertMappingProfile,
+} from "@shared/schema";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +13,23 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getMappingProfiles(): Promise<MappingProfile[]>;
+  getMappingProfile(name: string): Promise<MappingProfile | undefined>;
+  saveMappingProfile(profile: InsertMappingProfile): Promise<MappingProfile>;
+  deleteMappingProfile(name: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private mappingProfiles: Map<string, MappingProfile>;
   currentId: number;
+  currentProfileId: number;
 
   constructor() {
     this.users = new Map();
+    this.mappingProfiles = new Map();
     this.currentId = 1;
+    this.currentProfileId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +48,31 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async getMappingProfiles(): Promise<MappingProfile[]> {
+    return Array.from(this.mappingProfiles.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getMappingProfile(name: string): Promise<MappingProfile | undefined> {
+    return this.mappingProfiles.get(name);
+  }
+
+  // Saving under an existing name replaces that profile's rules
+  async saveMappingProfile(
+    insertProfile: InsertMappingProfile,
+  ): Promise<MappingProfile> {
+    const existing = this.mappingProfiles.get(insertProfile.name);
+    const id = existing ? existing.id : this.currentProfileId++;
+    const profile: MappingProfile = { ...insertProfile, id };
+    this.mappingProfiles.set(profile.name, profile);
+    return profile;
+  }
+
+  async deleteMappingProfile(name: string): Promise<boolean> {
+    return this.mappingProfiles.delete(name);
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,53 @@
+/**
+ * Comments, CDATA sections and processing instructions
+ *
+ * Semantic output keeps these nodes where they appear in the source instead
+ * of dropping them. CDATA is text by default and can be read as HTML; comments
+ * and processing instructions are dropped by default and can be written as
+ * HTML comments or shown as annotations.
+ */
+
+import { escapeHtml } from "./html-sanitizer";
+
+/** How CDATA sections are written: escaped as text or parsed as HTML */
+export type CdataMode = "text" | "html";
+
+export const CDATA_MODES: CdataMode[] = ["text", "html"];
+
+/**
+ * How comments and processing instructions are written: dropped, as HTML
+ * comments in the source, or as visible annotations
+ */
+export type CommentMode = "drop" | "html" | "visible";
+
+export const COMMENT_MODES: CommentMode[] = ["drop", "html", "visible"];
+
+export const ANNOTATION_STYLES = `
+  .xml-annotation { display: inline-block; font-size: 0.8125rem; color: #15803d; background: #f0fdf4; border-left: 3px solid #86efac; padding: 0 0.375rem; margin: 0.125rem 0; white-space: pre-wrap; }
+  .xml-annotation-pi { font-family: ui-monospace, monospace; color: #64748b; background: #f8fafc; border-left-color: #cbd5e1; }
+`;
+
+/**
+ * Writes text as an HTML comment. "--" cannot appear inside a comment, so
+ * runs of dashes are split up.
+ */
+function htmlComment(text: string): string {
+  return `<!-- ${text.replace(/-(?=-)/g, "- ")} -->`;
+}
+
+export function renderComment(text: string, mode: CommentMode = "drop"): string {
+  if (mode === "html") return htmlComment(text);
+  if (mode === "visible") {
+    return `<span class="xml-annotation xml-annotation-comment">${escapeHtml(text.trim())}</span>`;
+  }
+  return "";
+}
+
+export function renderProcessingInstruction(instruction: ProcessingInstruction, mode: CommentMode = "drop"): string {
+  const source = `<?${instruction.target} ${instruction.data}?>`;
+  if (mode === "html") return htmlComment(source);
+  if (mode === "visible") {
+    return `<span class="xml-annotation xml-annotation-pi">${escapeHtml(source)}</span>`;
+  }
+  return "";
+}
@@ -0,0 +1,42 @@
+/**
+ * DOM helpers that only rely on DOM Level 2 features, so they work with both
+ * the native browser DOM and xmldom
+ */
+
+import { expandedName } from "./xml-namespaces";
+
+// Node type constants (the global `Node` is not available outside browsers)
+export const ELEMENT_NODE = 1;
+export const ATTRIBUTE_NODE = 2;
+export const TEXT_NODE = 3;
+export const CDATA_SECTION_NODE = 4;
+export const PROCESSING_INSTRUCTION_NODE = 7;
+export const COMMENT_NODE = 8;
+
+/**
+ * Collects descendant elements with any of the given names, in document order.
+ * Names are namespace-qualified, see qname.
+ */
+export function findDescendants(element: Element, tagNames: string[], matches: Element[] = []): Element[] {
+  Array.from(element.children).forEach(child => {
+    if (tagNames.includes(expandedName(child))) {
+      matches.push(child);
+    }
+    findDescendants(child, tagNames, matches);
+  });
+  return matches;
+}
+
+/**
+ * Finds the first descendant element with any of the given names
+ */
+export function findFirst(element: Element, tagNames: string[]): Element | undefined {
+  return findDescendants(element, tagNames)[0];
+}
+
+/**
+ * Collects the direct child elements with any of the given names
+ */
+export function findChildren(element: Element, tagNames: string[]): Element[] {
+  return Array.from(element.children).filter(child => tagNames.includes(expandedName(child)));
+}
@@ -0,0 +1,541 @@
+/**
+ * Feed rendering
+ *
+ * Feeds are rendered as a header followed by one card per entry.
+ *
+ * Atom 1.0 (RFC 4287): text constructs (title, subtitle, summary, content)
+ * honour their type. Text is escaped, html is sanitized and xhtml is rebuilt
+ * from the DOM before it is sanitized.
+ *
+ * RSS 0.9x, 1.0 and 2.0: besides the core elements, enclosures and the Media
+ * RSS and iTunes podcast extensions provide thumbnails, audio and video
+ * players and episode metadata.
+ */
+
+import { CDATA_SECTION_NODE, ELEMENT_NODE, TEXT_NODE, findChildren } from './dom-utils';
+import { escapeHtml, isSafeUrl, safeUrl, sanitizeHtml } from './html-sanitizer';
+import { sourceAttribute } from './source-map';
+import { NS, isNamed, isNamespaceDeclaration, localNameOf, qname } from './xml-namespaces';
+import type { ConvertOptions } from './xml-converter';
+
+// Elements written without a closing tag when rebuilding xhtml content
+const VOID_ELEMENTS = ['area', 'br', 'col', 'hr', 'img', 'source', 'track', 'wbr'];
+
+const FEED_STYLES = `
+  <style>
+    .xml-feed { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 48rem; margin: 0 auto; }
+    .xml-feed h1 { font-size: 2rem; font-weight: bold; margin-bottom: 0.25rem; }
+    .feed-description { color: #475569; margin-bottom: 1.5rem; }
+    .feed-item { border: 1px solid #e2e8f0; border-radius: 0.5rem; padding: 1rem 1.25rem; margin-bottom: 1rem; }
+    .feed-item h2 { font-size: 1.25rem; font-weight: 600; margin: 0 0 0.25rem; }
+    .feed-item h2 a { color: #0f172a; text-decoration: none; }
+    .feed-item h2 a:hover { text-decoration: underline; }
+    .feed-meta { color: #64748b; font-size: 0.875rem; margin-bottom: 0.75rem; }
+    .feed-author { display: inline; font-style: normal; }
+    .feed-categories { display: flex; flex-wrap: wrap; gap: 0.375rem; list-style: none; padding: 0; margin: 0.75rem 0 0; }
+    .feed-category { background-color: #f1f5f9; border-radius: 9999px; padding: 0.125rem 0.625rem; font-size: 0.75rem; }
+    .feed-content img { max-width: 100%; height: auto; }
+    .feed-header { margin-bottom: 1.5rem; }
+    .feed-header .feed-description { margin-bottom: 0.25rem; }
+    .feed-header-with-image { display: flex; gap: 1rem; align-items: flex-start; }
+    .feed-image { width: 6rem; height: 6rem; object-fit: cover; border-radius: 0.5rem; flex-shrink: 0; }
+    .feed-item-with-thumbnail { display: flex; gap: 1rem; align-items: flex-start; }
+    .feed-item-body { min-width: 0; flex: 1; }
+    .feed-thumbnail { width: 8rem; max-height: 8rem; object-fit: cover; border-radius: 0.375rem; flex-shrink: 0; }
+    .feed-media { margin-top: 0.75rem; }
+    .feed-media audio, .feed-media video { width: 100%; }
+    .feed-badge { display: inline-block; border: 1px solid #cbd5e1; border-radius: 0.25rem; padding: 0 0.375rem; font-size: 0.75rem; }
+    .feed-category-group { display: flex; flex-wrap: wrap; gap: 0.375rem; align-items: center; margin-top: 0.5rem; }
+    .feed-category-group .feed-categories { margin: 0; }
+    .feed-category-domain { color: #64748b; font-size: 0.75rem; }
+  </style>
+`;
+
+// Media RSS is published both with and without the trailing slash
+const MEDIA_NAMESPACES = [NS.media, 'http://search.yahoo.com/mrss'];
+
+/**
+ * Formats an RFC 3339 or RFC 822 date for display. The output does not
+ * depend on the machine's locale or time zone, so the server, CLI and
+ * browser produce the same HTML.
+ */
+export function formatFeedDate(value: string): string {
+  const date = new Date(value.trim());
+  if (isNaN(date.getTime())) {
+    return `<time>${escapeHtml(value.trim())}</time>`;
+  }
+
+  const formatted = date.toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  });
+  return `<time datetime="${escapeHtml(date.toISOString())}">${escapeHtml(formatted)} UTC</time>`;
+}
+
+/**
+ * Formats an iTunes duration, given in seconds or as [[hh:]mm:]ss
+ */
+function formatDuration(value: string): string {
+  if (!/^\d+$/.test(value)) return value;
+
+  const seconds = Number(value);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Formats an enclosure length in bytes, empty when unknown
+ */
+function formatSize(length: string | null): string {
+  const bytes = Number(length);
+  if (!length || !Number.isFinite(bytes) || bytes <= 0) return '';
+
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const exponent = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1);
+  const size = bytes / Math.pow(1024, exponent);
+  return `${size.toFixed(exponent === 0 || size >= 10 ? 0 : 1)} ${units[exponent]}`;
+}
+
+/**
+ * Renders category tags, categories with a group (RSS domain) are listed
+ * under it after the ungrouped ones
+ */
+function renderCategories(categories: { label: string; group?: string }[]): string {
+  const groups = new Map<string, string[]>();
+  categories.forEach(({ label, group = '' }) => {
+    if (!label) return;
+    const labels = groups.get(group) ?? [];
+    if (!labels.includes(label)) labels.push(label);
+    groups.set(group, labels);
+  });
+
+  const renderList = (labels: string[]) => `<ul class="feed-categories">${labels
+    .map(label => `<li class="feed-category">${escapeHtml(label)}</li>`)
+    .join('')}</ul>`;
+
+  let html = '';
+  const ungrouped = groups.get('');
+  if (ungrouped) {
+    html += renderList(ungrouped);
+  }
+  groups.forEach((labels, group) => {
+    if (!group) return;
+    html += `<div class="feed-category-group"><span class="feed-category-domain">${escapeHtml(group)}</span>${renderList(labels)}</div>`;
+  });
+  return html;
+}
+
+/**
+ * Rebuilds the content of an xhtml text construct as HTML. Prefixes are
+ * dropped so <xhtml:p> becomes <p>, and all text and attribute values are
+ * escaped.
+ */
+function xhtmlToHtml(parent: Element): string {
+  return Array.from(parent.childNodes).map(node => {
+    if (node.nodeType === TEXT_NODE || node.nodeType === CDATA_SECTION_NODE) {
+      return escapeHtml(node.nodeValue || '');
+    }
+    if (node.nodeType !== ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    const tagName = localNameOf(element).toLowerCase();
+    const attributes = Array.from(element.attributes)
+      .filter(attr => !isNamespaceDeclaration(attr))
+      .map(attr => ` ${localNameOf(attr)}="${escapeHtml(attr.value)}"`)
+      .join('');
+
+    return VOID_ELEMENTS.includes(tagName)
+      ? `<${tagName}${attributes}>`
+      : `<${tagName}${attributes}>${xhtmlToHtml(element)}</${tagName}>`;
+  }).join('');
+}
+
+/**
+ * Renders an Atom text construct (or content element) according to its type
+ */
+function renderTextConstruct(element: Element | undefined, options: ConvertOptions): string {
+  if (!element) return '';
+
+  const type = (element.getAttribute('type') || 'text').toLowerCase();
+  let html: string;
+  if (type === 'html' || type === 'text/html') {
+    html = element.textContent || '';
+  } else if (type === 'xhtml' || type === 'application/xhtml+xml') {
+    // The content is wrapped in an xhtml <div> that is not part of it
+    const wrapper = element.children[0];
+    html = wrapper ? xhtmlToHtml(wrapper) : '';
+  } else if (type === 'text' || type.startsWith('text/')) {
+    return escapeHtml((element.textContent || '').trim());
+  } else {
+    // Other media types are base64 or XML payloads that cannot be shown inline
+    return '';
+  }
+
+  return options.trustedHtml ? html : sanitizeHtml(html, options.sanitize);
+}
+
+/**
+ * Picks the entry's web page: the rel="alternate" link (the default rel),
+ * preferring an HTML one when there are several
+ */
+function findAlternateLink(links: Element[]): string | undefined {
+  const alternates = links.filter(link => (link.getAttribute('rel') || 'alternate') === 'alternate');
+  const preferred = alternates.find(link => /html/i.test(link.getAttribute('type') || '')) ?? alternates[0];
+  return preferred?.getAttribute('href') || undefined;
+}
+
+/**
+ * A feed rendered in parts, so items can also be rendered one at a time as
+ * they are streamed
+ */
+export interface FeedRenderer {
+  /** Opens the feed's container and renders the feed header */
+  header(): string;
+  /** Renders an entry or item as a card */
+  item(item: Element): string;
+  /** The entries or items in the feed */
+  items: Element[];
+}
+
+// Markup around the item cards, FEED_END closes the container opened by the header
+export const FEED_ITEMS_START = '<div class="feed-items">';
+export const FEED_ITEMS_END = '</div>';
+export const FEED_END = '</div>';
+
+function renderFeed(renderer: FeedRenderer): string {
+  let html = renderer.header();
+  if (renderer.items.length > 0) {
+    html += FEED_ITEMS_START + renderer.items.map(item => renderer.item(item)).join('') + FEED_ITEMS_END;
+  }
+  return html + FEED_END;
+}
+
+/**
+ * Renders the feed in the Atom namespace, or an unnamespaced <feed>, in parts
+ */
+export function createAtomRenderer(feed: Element, options: ConvertOptions): FeedRenderer {
+  const namespace = feed.namespaceURI || null;
+  const child = (parent: Element, localName: string) => findChildren(parent, [qname(namespace, localName)])[0];
+  const children = (parent: Element, localName: string) => findChildren(parent, [qname(namespace, localName)]);
+  const text = (parent: Element, localName: string) => (child(parent, localName)?.textContent || '').trim();
+  const allowedSchemes = options.sanitize?.allowedSchemes;
+
+  const renderAuthors = (authors: Element[]) => authors.map(author => {
+    const name = escapeHtml(text(author, 'name') || text(author, 'email') || 'Unknown');
+    const uri = text(author, 'uri');
+    const email = text(author, 'email');
+    const href = uri || (email ? `mailto:${email}` : '');
+    const content = href ? `<a href="${escapeHtml(safeUrl(href, allowedSchemes))}">${name}</a>` : name;
+    return `<address class="feed-author">${content}</address>`;
+  }).join(', ');
+
+  // Feed authors apply to entries that do not name their own
+  const feedAuthors = children(feed, 'author');
+  const feedLink = findAlternateLink(children(feed, 'link'));
+
+  const renderHeader = () => {
+    let html = `<div class="xml-feed xml-atom-feed">${FEED_STYLES}<header class="feed-header"${sourceAttribute(feed, options)}>`;
+
+    const titleElement = child(feed, 'title');
+    const title = renderTextConstruct(titleElement, options) || 'Atom Feed';
+    const titleAttribute = sourceAttribute(titleElement, options);
+    html += feedLink
+      ? `<h1${titleAttribute}><a href="${escapeHtml(safeUrl(feedLink, allowedSchemes))}">${title}</a></h1>`
+      : `<h1${titleAttribute}>${title}</h1>`;
+
+    const subtitle = renderTextConstruct(child(feed, 'subtitle'), options);
+    if (subtitle) {
+      html += `<p class="feed-description">${subtitle}</p>`;
+    }
+
+    const feedMeta = [
+      feedAuthors.length > 0 ? `By ${renderAuthors(feedAuthors)}` : '',
+      text(feed, 'updated') ? `Updated ${formatFeedDate(text(feed, 'updated'))}` : '',
+    ].filter(Boolean);
+    if (feedMeta.length > 0) {
+      html += `<div class="feed-meta">${feedMeta.join(' · ')}</div>`;
+    }
+    html += '</header>';
+    return html;
+  };
+
+  const renderItem = (entry: Element) => {
+    let html = '';
+    const titleElement = child(entry, 'title');
+    const entryTitle = renderTextConstruct(titleElement, options) || 'Untitled';
+    const titleAttribute = sourceAttribute(titleElement, options);
+    const link = findAlternateLink(children(entry, 'link'));
+    const entryAuthors = children(entry, 'author');
+    const authors = entryAuthors.length > 0 ? entryAuthors : feedAuthors;
+
+    html += `<article class="feed-item"${sourceAttribute(entry, options)}>`;
+    html += link
+      ? `<h2${titleAttribute}><a href="${escapeHtml(safeUrl(link, allowedSchemes))}">${entryTitle}</a></h2>`
+      : `<h2${titleAttribute}>${entryTitle}</h2>`;
+
+    // Published is when the entry first appeared, updated only shown when it differs
+    const published = text(entry, 'published');
+    const updated = text(entry, 'updated');
+    const meta = [
+      authors.length > 0 ? `By ${renderAuthors(authors)}` : '',
+      published ? formatFeedDate(published) : '',
+      updated && updated !== published ? `Updated ${formatFeedDate(updated)}` : '',
+    ].filter(Boolean);
+    if (meta.length > 0) {
+      html += `<div class="feed-meta">${meta.join(' · ')}</div>`;
+    }
+
+    // Content wins over the summary, out-of-line content is linked instead
+    const content = child(entry, 'content');
+    const contentSource = content?.getAttribute('src');
+    const body = content && !contentSource
+      ? renderTextConstruct(content, options)
+      : renderTextConstruct(child(entry, 'summary'), options);
+    if (body) {
+      html += `<div class="feed-content">${body}</div>`;
+    }
+    if (contentSource) {
+      html += `<p><a href="${escapeHtml(safeUrl(contentSource, allowedSchemes))}">View content</a></p>`;
+    }
+
+    html += renderCategories(children(entry, 'category').map(category => ({
+      label: category.getAttribute('label') || category.getAttribute('term') || '',
+    })));
+    html += '</article>';
+    return html;
+  };
+
+  return { header: renderHeader, item: renderItem, items: children(feed, 'entry') };
+}
+
+/**
+ * Renders the feed in the Atom namespace, or an unnamespaced <feed>
+ */
+export function convertAtomFeedToHtml(feed: Element, options: ConvertOptions): string {
+  return renderFeed(createAtomRenderer(feed, options));
+}
+
+/**
+ * Parses an RSS author, "email (Name)" by the spec, into the part to show
+ */
+function rssAuthorName(author: string): string {
+  const match = author.match(/^\S+@\S+\s*\((.+)\)$/);
+  return match ? match[1].trim() : author;
+}
+
+/**
+ * Describes a language tag, e.g. "en-us" as "English (United States)"
+ */
+function languageName(tag: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+}
+
+interface MediaObject {
+  url: string;
+  type: string;
+  medium: string;
+  length: string | null;
+}
+
+/**
+ * Renders a player for audio and video, a download link for anything else
+ */
+function renderMediaObject(media: MediaObject, allowedSchemes?: string[]): string {
+  const url = escapeHtml(safeUrl(media.url, allowedSchemes));
+  const typeAttribute = media.type ? ` type="${escapeHtml(media.type)}"` : '';
+
+  if (media.medium === 'audio') {
+    return `<div class="feed-media"><audio controls preload="none"><source src="${url}"${typeAttribute}></audio></div>`;
+  }
+  if (media.medium === 'video') {
+    return `<div class="feed-media"><video controls preload="none"><source src="${url}"${typeAttribute}></video></div>`;
+  }
+
+  const details = [media.type, formatSize(media.length)].filter(Boolean).join(', ');
+  return `<div class="feed-media"><a href="${url}" download>Download${details ? ` (${escapeHtml(details)})` : ''}</a></div>`;
+}
+
+/**
+ * Renders an RSS feed, the root being <rss>, a bare <channel> or RSS 1.0's <rdf:RDF>, in parts
+ */
+export function createRssRenderer(root: Element, options: ConvertOptions): FeedRenderer {
+  // RSS 1.0 elements live in their own namespace, RSS 0.9x and 2.0 use none
+  const isRdf = isNamed(root, 'RDF', [NS.rdf]);
+  const rss = [isRdf ? NS.rss1 : root.namespaceURI || null];
+  const itunes = [NS.itunes];
+  const child = (parent: Element, localName: string, namespaces = rss) =>
+    findChildren(parent, namespaces.map(ns => qname(ns, localName)))[0];
+  const children = (parent: Element, localName: string, namespaces = rss) =>
+    findChildren(parent, namespaces.map(ns => qname(ns, localName)));
+  const text = (parent: Element, localName: string, namespaces = rss) =>
+    (child(parent, localName, namespaces)?.textContent || '').trim();
+  const allowedSchemes = options.sanitize?.allowedSchemes;
+  const sanitize = (html: string) => options.trustedHtml ? html : sanitizeHtml(html, options.sanitize);
+
+  const channel = isNamed(root, 'rss') || isRdf ? child(root, 'channel') ?? root : root;
+  // RSS 1.0 lists items and the image next to the channel instead of inside it
+  const items = isRdf ? [...children(channel, 'item'), ...children(root, 'item')] : children(channel, 'item');
+  const image = child(channel, 'image') ?? (isRdf ? child(root, 'image') : undefined);
+
+  const language = text(channel, 'language');
+  const languageAttribute = /^[a-z]{1,8}(-[a-z0-9]{1,8})*$/i.test(language) ? ` lang="${escapeHtml(language)}"` : '';
+
+  const renderHeader = () => {
+    let html = `<div class="xml-feed xml-rss-feed"${languageAttribute}>${FEED_STYLES}`;
+
+    // Channel header
+    const imageUrl = (image && text(image, 'url')) || child(channel, 'image', itunes)?.getAttribute('href') || '';
+    const channelLink = text(channel, 'link');
+    const title = escapeHtml(text(channel, 'title') || 'RSS Feed');
+
+    html += `<header class="feed-header${imageUrl ? ' feed-header-with-image' : ''}"${sourceAttribute(channel, options)}>`;
+    if (imageUrl) {
+      const imageAlt = (image && text(image, 'title')) || '';
+      html += `<img class="feed-image" src="${escapeHtml(safeUrl(imageUrl, allowedSchemes))}" alt="${escapeHtml(imageAlt)}">`;
+    }
+    html += '<div>';
+    const titleAttribute = sourceAttribute(child(channel, 'title'), options);
+    html += channelLink
+      ? `<h1${titleAttribute}><a href="${escapeHtml(safeUrl(channelLink, allowedSchemes))}">${title}</a></h1>`
+      : `<h1${titleAttribute}>${title}</h1>`;
+
+    const description = text(channel, 'description') || text(channel, 'summary', itunes);
+    if (description) {
+      html += `<p class="feed-description">${escapeHtml(description)}</p>`;
+    }
+
+    const channelAuthor = text(channel, 'author', itunes) || text(channel, 'managingEditor') || text(channel, 'creator', [NS.dc]);
+    const channelDate = text(channel, 'lastBuildDate') || text(channel, 'pubDate') || text(channel, 'date', [NS.dc]);
+    const channelMeta = [
+      channelAuthor ? `By ${escapeHtml(rssAuthorName(channelAuthor))}` : '',
+      language ? `Language: ${escapeHtml(languageName(language))}` : '',
+      channelDate ? `Updated ${formatFeedDate(channelDate)}` : '',
+    ].filter(Boolean);
+    if (channelMeta.length > 0) {
+      html += `<div class="feed-meta">${channelMeta.join(' · ')}</div>`;
+    }
+
+    // iTunes categories nest a subcategory inside the category
+    const podcastCategories = children(channel, 'category', itunes).map(category => {
+      const subcategory = child(category, 'category', itunes)?.getAttribute('text');
+      const label = category.getAttribute('text') || '';
+      return { label: subcategory ? `${label} › ${subcategory}` : label };
+    });
+    html += renderCategories(podcastCategories);
+    html += '</div></header>';
+    return html;
+  };
+
+  const renderItem = (item: Element) => {
+    let html = '';
+    // Media RSS content may be grouped as alternative renditions
+    const mediaParents = [item, ...children(item, 'group', MEDIA_NAMESPACES)];
+    const mediaContents = mediaParents.flatMap(parent => children(parent, 'content', MEDIA_NAMESPACES));
+
+    const thumbnail = mediaParents
+      .map(parent => child(parent, 'thumbnail', MEDIA_NAMESPACES)?.getAttribute('url'))
+      .find(Boolean)
+      || mediaContents
+        .find(content => content.getAttribute('medium') === 'image' || /^image\//i.test(content.getAttribute('type') || ''))
+        ?.getAttribute('url')
+      || child(item, 'image', itunes)?.getAttribute('href')
+      || children(item, 'enclosure')
+        .find(enclosure => /^image\//i.test(enclosure.getAttribute('type') || ''))
+        ?.getAttribute('url');
+
+    // A guid is the item's permalink unless it says otherwise
+    const guid = child(item, 'guid');
+    const permalink = guid && guid.getAttribute('isPermaLink') !== 'false' ? (guid.textContent || '').trim() : '';
+    const link = text(item, 'link') || permalink;
+    const itemTitle = escapeHtml(text(item, 'title') || text(item, 'title', itunes) || 'Untitled');
+    const titleAttribute = sourceAttribute(child(item, 'title') ?? child(item, 'title', itunes), options);
+
+    html += `<article class="feed-item${thumbnail ? ' feed-item-with-thumbnail' : ''}"${sourceAttribute(item, options)}>`;
+    if (thumbnail) {
+      html += `<img class="feed-thumbnail" src="${escapeHtml(safeUrl(thumbnail, allowedSchemes))}" alt="">`;
+    }
+    html += '<div class="feed-item-body">';
+    html += link
+      ? `<h2${titleAttribute}><a href="${escapeHtml(safeUrl(link, allowedSchemes))}">${itemTitle}</a></h2>`
+      : `<h2${titleAttribute}>${itemTitle}</h2>`;
+
+    const author = text(item, 'author') || text(item, 'creator', [NS.dc]) || text(item, 'author', itunes);
+    const date = text(item, 'pubDate') || text(item, 'date', [NS.dc]);
+    const duration = text(item, 'duration', itunes);
+    const season = text(item, 'season', itunes);
+    const episode = text(item, 'episode', itunes);
+    const episodeType = text(item, 'episodeType', itunes).toLowerCase();
+    const explicit = ['true', 'yes', 'explicit'].includes(text(item, 'explicit', itunes).toLowerCase());
+    const meta = [
+      author ? `By ${escapeHtml(rssAuthorName(author))}` : '',
+      date ? formatFeedDate(date) : '',
+      season && episode ? `Season ${escapeHtml(season)}, episode ${escapeHtml(episode)}`
+        : episode ? `Episode ${escapeHtml(episode)}` : '',
+      duration ? `<span class="feed-duration">${escapeHtml(formatDuration(duration))}</span>` : '',
+      episodeType && episodeType !== 'full' ? `<span class="feed-badge">${escapeHtml(episodeType)}</span>` : '',
+      explicit ? '<span class="feed-badge">Explicit</span>' : '',
+    ].filter(Boolean);
+    if (meta.length > 0) {
+      html += `<div class="feed-meta">${meta.join(' · ')}</div>`;
+    }
+
+    // content:encoded carries the full post, description is often an excerpt
+    const body = text(item, 'encoded', [NS.content]) || text(item, 'description');
+    const summary = text(item, 'summary', itunes);
+    if (body) {
+      html += `<div class="feed-content">${sanitize(body)}</div>`;
+    } else if (summary) {
+      html += `<div class="feed-content"><p>${escapeHtml(summary)}</p></div>`;
+    }
+
+    // Enclosures and Media RSS audio/video, each URL once
+    const mediaObjects: MediaObject[] = [];
+    const addMedia = (url: string | null, type: string | null, medium: string | null, length: string | null) => {
+      if (!url || !isSafeUrl(url, allowedSchemes) || mediaObjects.some(media => media.url === url)) return;
+      const mediaType = (type || '').toLowerCase();
+      mediaObjects.push({ url, type: mediaType, medium: medium || mediaType.split('/')[0], length });
+    };
+    children(item, 'enclosure').forEach(enclosure => addMedia(
+      enclosure.getAttribute('url'),
+      enclosure.getAttribute('type'),
+      null,
+      enclosure.getAttribute('length'),
+    ));
+    mediaContents.forEach(content => addMedia(
+      content.getAttribute('url'),
+      content.getAttribute('type'),
+      content.getAttribute('medium'),
+      content.getAttribute('fileSize'),
+    ));
+    // Images are already shown as the thumbnail
+    html += mediaObjects
+      .filter(media => media.medium !== 'image')
+      .map(media => renderMediaObject(media, allowedSchemes))
+      .join('');
+
+    html += renderCategories(children(item, 'category').map(category => ({
+      label: (category.textContent || '').trim(),
+      group: category.getAttribute('domain') || undefined,
+    })));
+    html += '</div></article>';
+    return html;
+  };
+
+  return { header: renderHeader, item: renderItem, items };
+}
+
+/**
+ * Renders an RSS feed, the root being <rss>, a bare <channel> or RSS 1.0's <rdf:RDF>
+ */
+export function convertRssFeedToHtml(root: Element, options: ConvertOptions): string {
+  return renderFeed(createRssRenderer(root, options));
+}
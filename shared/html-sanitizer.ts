@@ -0,0 +1,322 @@
+/**
+ * HTML escaping and sanitization for converted content
+ *
+ * Everything taken from the XML source is escaped before it is written into
+ * the output. Fields that carry HTML themselves (feed descriptions, content)
+ * are rebuilt from an allowlist instead, unless the caller explicitly trusts
+ * them.
+ */
+
+import { ELEMENT_NODE } from "./dom-utils";
+
+export interface SanitizeOptions {
+  /** Tags kept in the output, everything else is unwrapped to its text */
+  allowedTags: string[];
+  /** Attributes kept per tag, "*" applies to every allowed tag */
+  allowedAttributes: Record<string, string[]>;
+  /** URL schemes allowed in href/src/cite, relative URLs are always allowed */
+  allowedSchemes: string[];
+}
+
+export const DEFAULT_SANITIZE_OPTIONS: SanitizeOptions = {
+  allowedTags: [
+    "a", "abbr", "b", "blockquote", "br", "caption", "cite", "code", "dd", "del", "div",
+    "dl", "dt", "em", "figcaption", "figure", "h1", "h2", "h3", "h4", "h5", "h6", "hr",
+    "i", "img", "ins", "kbd", "li", "mark", "ol", "p", "pre", "q", "s", "small", "span",
+    "strong", "sub", "sup", "table", "tbody", "td", "tfoot", "th", "thead", "time", "tr",
+    "u", "ul",
+  ],
+  allowedAttributes: {
+    "*": ["title", "lang", "dir", "class"],
+    a: ["href", "name"],
+    img: ["src", "alt", "width", "height"],
+    blockquote: ["cite"],
+    q: ["cite"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan", "scope"],
+    time: ["datetime"],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+};
+
+// Elements whose content is dropped along with the tag
+const DROP_CONTENT_TAGS = ["script", "style", "iframe", "object", "embed", "template", "noscript", "textarea", "title"];
+// Elements that never have a closing tag
+const VOID_TAGS = ["br", "hr", "img", "source", "track", "wbr"];
+// Attributes holding a URL, checked against the allowed schemes
+const URL_ATTRIBUTES = ["href", "src", "srcset", "cite", "action", "formaction", "poster", "xlink:href"];
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>|<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+};
+
+/**
+ * Checks a tag name supplied by the user (e.g. in a mapping rule) is valid
+ * and cannot run script
+ */
+export function isSafeTagName(tagName: string): boolean {
+  const name = tagName.toLowerCase();
+  return /^[a-z][a-z0-9-]*$/.test(name) && !DROP_CONTENT_TAGS.includes(name)
+    && !["base", "frame", "frameset", "link", "meta", "svg", "math"].includes(name);
+}
+
+/**
+ * Checks an attribute name supplied by the user is valid and is neither an
+ * event handler nor inline style
+ */
+export function isSafeAttributeName(name: string): boolean {
+  const lowerName = name.toLowerCase();
+  return /^[a-z_][a-z0-9_.:-]*$/.test(lowerName) && !lowerName.startsWith("on") && lowerName !== "style";
+}
+
+/**
+ * Whether an attribute holds a URL that must pass isSafeUrl
+ */
+export function isUrlAttribute(name: string): boolean {
+  return URL_ATTRIBUTES.includes(name.toLowerCase());
+}
+
+/**
+ * Escapes text for use in HTML content or a double-quoted attribute value
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Escapes HTML text while keeping character references that are already
+ * valid, so "&amp;" in a feed body stays a single ampersand
+ */
+function escapeHtmlText(text: string): string {
+  return text
+    .replace(/&(?!(?:[a-zA-Z][a-zA-Z0-9]*|#\d+|#x[0-9a-fA-F]+);)/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z][a-zA-Z0-9]*);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "";
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Checks a URL against the allowed schemes. Relative URLs are allowed.
+ */
+export function isSafeUrl(url: string, allowedSchemes = DEFAULT_SANITIZE_OPTIONS.allowedSchemes): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const normalized = url.replace(/[\u0000- \u007f]/g, "").toLowerCase();
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/);
+  return !scheme || allowedSchemes.includes(scheme[1]);
+}
+
+/**
+ * Returns the URL if it is safe to link to, "#" otherwise
+ */
+export function safeUrl(url: string, allowedSchemes?: string[]): string {
+  return isSafeUrl(url, allowedSchemes) ? url : "#";
+}
+
+function sanitizeAttributes(tagName: string, source: string, options: SanitizeOptions): string {
+  const allowed = [
+    ...(options.allowedAttributes["*"] ?? []),
+    ...(options.allowedAttributes[tagName] ?? []),
+  ];
+
+  let attributes = "";
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name)) continue;
+
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(value, options.allowedSchemes)) continue;
+
+    attributes += ` ${name}="${escapeHtml(value)}"`;
+  }
+  return attributes;
+}
+
+/**
+ * Rebuilds an HTML fragment keeping only allowlisted tags and attributes.
+ * Text is escaped, disallowed tags are unwrapped, script-like elements are
+ * dropped with their content, and the result is always balanced so it
+ * cannot close the surrounding markup.
+ */
+export function sanitizeHtml(html: string, overrides: Partial<SanitizeOptions> = {}): string {
+  const options = { ...DEFAULT_SANITIZE_OPTIONS, ...overrides };
+  const openTags: string[] = [];
+  let output = "";
+  let droppingUntil: string | null = null;
+  let lastIndex = 0;
+
+  for (const match of Array.from(html.matchAll(TAG_PATTERN))) {
+    const text = html.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    if (!droppingUntil) {
+      output += escapeHtmlText(text);
+    }
+
+    // Comments, doctypes and processing instructions are removed
+    if (!match[2]) continue;
+
+    const isClosing = match[1] === "/";
+    const tagName = match[2].toLowerCase();
+
+    if (droppingUntil) {
+      if (isClosing && tagName === droppingUntil) droppingUntil = null;
+      continue;
+    }
+
+    if (DROP_CONTENT_TAGS.includes(tagName)) {
+      if (!isClosing && !match[0].endsWith("/>")) droppingUntil = tagName;
+      continue;
+    }
+
+    if (!options.allowedTags.includes(tagName)) continue;
+
+    if (isClosing) {
+      const openIndex = openTags.lastIndexOf(tagName);
+      if (openIndex === -1) continue;
+      // Close anything left open inside this element first
+      while (openTags.length > openIndex) {
+        output += `</${openTags.pop()}>`;
+      }
+      continue;
+    }
+
+    output += `<${tagName}${sanitizeAttributes(tagName, match[3] ?? "", options)}>`;
+    if (!VOID_TAGS.includes(tagName) && !match[0].endsWith("/>")) {
+      openTags.push(tagName);
+    } else if (!VOID_TAGS.includes(tagName)) {
+      output += `</${tagName}>`;
+    }
+  }
+
+  if (!droppingUntil) {
+    output += escapeHtmlText(html.slice(lastIndex));
+  }
+  while (openTags.length > 0) {
+    output += `</${openTags.pop()}>`;
+  }
+
+  return output;
+}
+
+// Elements removed with their content when passing markup through
+const ACTIVE_TAGS = ["script", "iframe", "frame", "frameset", "object", "embed", "base", "noscript"];
+
+/**
+ * Whether a tag is an SVG animation that can rewrite href to a script URL,
+ * e.g. <animate attributeName="href" values="javascript:...">
+ */
+function animatesHref(tagName: string, attributes: string): boolean {
+  if (tagName !== "set" && tagName !== "animate") return false;
+  return Array.from(attributes.matchAll(ATTRIBUTE_PATTERN)).some((attribute) =>
+    attribute[1].toLowerCase() === "attributename"
+      && decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? "").trim().toLowerCase().endsWith("href"));
+}
+
+/**
+ * Passes complete HTML (e.g. XSLT output) through, keeping its structure and
+ * styles but removing scripts, event handler attributes and unsafe URLs.
+ * Anything that does not parse as a tag is escaped rather than left for the
+ * browser to interpret.
+ */
+export function stripActiveHtml(html: string, allowedSchemes = DEFAULT_SANITIZE_OPTIONS.allowedSchemes): string {
+  let output = "";
+  let droppingUntil: string | null = null;
+  let lastIndex = 0;
+
+  for (const match of Array.from(html.matchAll(TAG_PATTERN))) {
+    const text = html.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    if (!droppingUntil) {
+      output += text.replace(/</g, "&lt;");
+    }
+
+    // Comments, doctypes and processing instructions are removed. Copying
+    // them is unsafe: browsers end "<!-->" and "<!--->" right away and run
+    // the markup the pattern took for the rest of the comment.
+    if (!match[2]) continue;
+
+    const isClosing = match[1] === "/";
+    const tagName = match[2].toLowerCase();
+    const isSelfClosing = match[0].endsWith("/>");
+
+    if (droppingUntil) {
+      if (isClosing && tagName === droppingUntil) droppingUntil = null;
+      continue;
+    }
+
+    if (ACTIVE_TAGS.includes(tagName) || (!isClosing && animatesHref(tagName, match[3] ?? ""))) {
+      if (!isClosing && !isSelfClosing) droppingUntil = tagName;
+      continue;
+    }
+
+    if (isClosing) {
+      output += `</${tagName}>`;
+      continue;
+    }
+
+    let attributes = "";
+    for (const attribute of Array.from((match[3] ?? "").matchAll(ATTRIBUTE_PATTERN))) {
+      const name = attribute[1].toLowerCase();
+      const value = decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+      // http-equiv can redirect to a script URL through a refresh
+      if (name.startsWith("on") || name === "http-equiv" || name === "srcdoc") continue;
+      if (URL_ATTRIBUTES.includes(name) && !isSafeUrl(value, allowedSchemes)) continue;
+      attributes += ` ${name}="${escapeHtml(value)}"`;
+    }
+    output += `<${tagName}${attributes}${isSelfClosing ? " /" : ""}>`;
+  }
+
+  if (!droppingUntil) {
+    output += html.slice(lastIndex).replace(/</g, "&lt;");
+  }
+
+  return output;
+}
+
+/**
+ * Removes scripts, event handler attributes and unsafe URLs from an element
+ * that is passed through as markup (e.g. inline SVG)
+ */
+export function stripActiveContent(element: Element, allowedSchemes?: string[]): void {
+  Array.from(element.attributes).forEach(attr => {
+    const name = attr.name.toLowerCase();
+    if (name.startsWith("on") || (URL_ATTRIBUTES.includes(name) && !isSafeUrl(attr.value, allowedSchemes))) {
+      element.removeAttribute(attr.name);
+    }
+  });
+
+  Array.from(element.childNodes).forEach(child => {
+    if (child.nodeType !== ELEMENT_NODE) return;
+
+    const childElement = child as Element;
+    const localName = (childElement.localName || childElement.tagName).toLowerCase();
+    // SVG animations can rewrite href to a script URL, so drop those too
+    const animatesHref = (localName === "set" || localName === "animate")
+      && (childElement.getAttribute("attributeName") || "").toLowerCase().endsWith("href");
+    if (localName === "script" || localName === "foreignobject" || animatesHref) {
+      element.removeChild(childElement);
+    } else {
+      stripActiveContent(childElement, allowedSchemes);
+    }
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * Interactive tables
+ *
+ * A small, dependency-free script written into the converted HTML when
+ * interactive tables are enabled. It enhances every table[data-interactive]
+ * with column sorting (numbers and dates are detected), per-column filters,
+ * a search box and pagination. Everything is inline, so the downloaded file
+ * works offline.
+ *
+ * Rows are filtered and paginated across all <tbody> groups and sorted
+ * within their group. Cells spanning several rows are not taken into account.
+ */
+
+const INTERACTIVE_TABLE_STYLES = `
+  <style>
+    .xml-table-toolbar { display: flex; justify-content: flex-end; margin-bottom: 0.5rem; }
+    .xml-table-toolbar input, .xml-table-filters input, .xml-table-pager select {
+      font: inherit; font-size: 0.875rem; padding: 0.25rem 0.5rem; border: 1px solid #cbd5e1; border-radius: 0.25rem;
+    }
+    .xml-table-filters th { padding: 0.25rem 0.5rem; }
+    .xml-table-filters input { width: 100%; box-sizing: border-box; font-weight: normal; }
+    th.xml-table-sortable { cursor: pointer; user-select: none; white-space: nowrap; }
+    th.xml-table-sortable::after { content: " \\2195"; color: #94a3b8; }
+    th[aria-sort="ascending"]::after { content: " \\2191"; color: inherit; }
+    th[aria-sort="descending"]::after { content: " \\2193"; color: inherit; }
+    .xml-table-pager { display: flex; flex-wrap: wrap; gap: 0.5rem; align-items: center; justify-content: flex-end; font-size: 0.875rem; margin-bottom: 1rem; }
+    .xml-table-pager button { font: inherit; padding: 0.25rem 0.75rem; border: 1px solid #cbd5e1; border-radius: 0.25rem; background: #fff; cursor: pointer; }
+    .xml-table-pager button:disabled { opacity: 0.5; cursor: default; }
+  </style>
+`;
+
+// Plain ES5 (var, function) so it runs in any browser the file is opened in
+const INTERACTIVE_TABLE_SCRIPT = `
+  <script>
+  (function () {
+    var PAGE_SIZES = [10, 25, 50, 100];
+
+    function create(tag, className) {
+      var element = document.createElement(tag);
+      if (className) element.className = className;
+      return element;
+    }
+
+    // Text of the cell covering a column, taking colspan into account
+    function cellText(row, column) {
+      var position = 0;
+      for (var i = 0; i < row.cells.length; i++) {
+        position += row.cells[i].colSpan || 1;
+        if (position > column) return row.cells[i].textContent.trim();
+      }
+      return '';
+    }
+
+    function parseNumber(text) {
+      var value = text.replace(/[\\s,]/g, '').replace(/^[$\\u20ac\\u00a3\\u00a5]/, '').replace(/%$/, '');
+      return value !== '' && isFinite(value) ? Number(value) : NaN;
+    }
+
+    function parseDate(text) {
+      return /\\d/.test(text) ? Date.parse(text) : NaN;
+    }
+
+    // A column sorts as numbers or dates only when every non-empty value parses
+    function sortKey(values) {
+      var present = values.filter(function (value) { return value !== ''; });
+      if (present.length > 0 && present.every(function (value) { return !isNaN(parseNumber(value)); })) {
+        return parseNumber;
+      }
+      if (present.length > 0 && present.every(function (value) { return !isNaN(parseDate(value)); })) {
+        return parseDate;
+      }
+      return null;
+    }
+
+    function enhance(table) {
+      var bodies = Array.prototype.slice.call(table.tBodies);
+      var rows = [];
+      var collectRows = function () {
+        rows = [];
+        bodies.forEach(function (body) { rows = rows.concat(Array.prototype.slice.call(body.rows)); });
+      };
+      collectRows();
+
+      var state = { query: '', filters: [], sortColumn: -1, descending: false, page: 0, pageSize: 25 };
+      var container = table.parentNode.classList.contains('table-responsive') ? table.parentNode : table;
+
+      var toolbar = create('div', 'xml-table-toolbar');
+      var search = create('input');
+      search.type = 'search';
+      search.placeholder = 'Search\\u2026';
+      search.setAttribute('aria-label', 'Search table');
+      toolbar.appendChild(search);
+      container.parentNode.insertBefore(toolbar, container);
+
+      var pager = create('div', 'xml-table-pager');
+      var status = create('span');
+      var previous = create('button');
+      var next = create('button');
+      var pageSize = create('select');
+      previous.type = next.type = 'button';
+      previous.textContent = 'Previous';
+      next.textContent = 'Next';
+      pageSize.setAttribute('aria-label', 'Rows per page');
+      PAGE_SIZES.forEach(function (size) {
+        var option = create('option');
+        option.value = String(size);
+        option.textContent = size + ' per page';
+        option.selected = size === state.pageSize;
+        pageSize.appendChild(option);
+      });
+      [status, previous, next, pageSize].forEach(function (element) { pager.appendChild(element); });
+      container.parentNode.insertBefore(pager, container.nextSibling);
+
+      function update() {
+        var query = state.query.toLowerCase();
+        var matching = rows.filter(function (row) {
+          if (query && row.textContent.toLowerCase().indexOf(query) === -1) return false;
+          return state.filters.every(function (filter, column) {
+            return !filter || cellText(row, column).toLowerCase().indexOf(filter) !== -1;
+          });
+        });
+
+        var pageCount = Math.max(1, Math.ceil(matching.length / state.pageSize));
+        state.page = Math.min(state.page, pageCount - 1);
+        var start = state.page * state.pageSize;
+        var shown = matching.slice(start, start + state.pageSize);
+
+        rows.forEach(function (row) { row.style.display = shown.indexOf(row) === -1 ? 'none' : ''; });
+        status.textContent = matching.length === 0
+          ? 'No matching rows'
+          : (start + 1) + '\\u2013' + (start + shown.length) + ' of ' + matching.length + ' rows';
+        previous.disabled = state.page === 0;
+        next.disabled = state.page >= pageCount - 1;
+      }
+
+      // The last header row names the columns
+      var header = table.tHead && table.tHead.rows[table.tHead.rows.length - 1];
+      if (header) {
+        var headerCells = Array.prototype.slice.call(header.cells);
+        var filterRow = create('tr', 'xml-table-filters');
+        var column = 0;
+
+        headerCells.forEach(function (cell) {
+          var cellColumn = column;
+          column += cell.colSpan || 1;
+
+          cell.classList.add('xml-table-sortable');
+          cell.tabIndex = 0;
+          var sort = function () {
+            state.descending = state.sortColumn === cellColumn ? !state.descending : false;
+            state.sortColumn = cellColumn;
+            headerCells.forEach(function (other) { other.removeAttribute('aria-sort'); });
+            cell.setAttribute('aria-sort', state.descending ? 'descending' : 'ascending');
+
+            var key = sortKey(rows.map(function (row) { return cellText(row, cellColumn); }));
+            var direction = state.descending ? -1 : 1;
+            bodies.forEach(function (body) {
+              Array.prototype.slice.call(body.rows)
+                .map(function (row, index) { return { row: row, index: index, text: cellText(row, cellColumn) }; })
+                .sort(function (a, b) {
+                  // Empty cells go last whatever the direction
+                  if (a.text === '' || b.text === '') return (a.text === '') - (b.text === '') || a.index - b.index;
+                  var result = key
+                    ? key(a.text) - key(b.text)
+                    : a.text.localeCompare(b.text, undefined, { numeric: true, sensitivity: 'base' });
+                  return result * direction || a.index - b.index;
+                })
+                .forEach(function (entry) { body.appendChild(entry.row); });
+            });
+            collectRows();
+            update();
+          };
+          cell.addEventListener('click', sort);
+          cell.addEventListener('keydown', function (event) {
+            if (event.key === 'Enter' || event.key === ' ') {
+              event.preventDefault();
+              sort();
+            }
+          });
+
+          var filterCell = create('th');
+          filterCell.colSpan = cell.colSpan || 1;
+          var filter = create('input');
+          filter.type = 'search';
+          filter.placeholder = 'Filter';
+          filter.setAttribute('aria-label', 'Filter ' + cell.textContent.trim());
+          filter.addEventListener('input', function () {
+            state.filters[cellColumn] = filter.value.trim().toLowerCase();
+            state.page = 0;
+            update();
+          });
+          filterCell.appendChild(filter);
+          filterRow.appendChild(filterCell);
+        });
+        table.tHead.appendChild(filterRow);
+      }
+
+      search.addEventListener('input', function () {
+        state.query = search.value.trim();
+        state.page = 0;
+        update();
+      });
+      previous.addEventListener('click', function () { state.page--; update(); });
+      next.addEventListener('click', function () { state.page++; update(); });
+      pageSize.addEventListener('change', function () {
+        state.pageSize = Number(pageSize.value);
+        state.page = 0;
+        update();
+      });
+
+      update();
+    }
+
+    Array.prototype.forEach.call(document.querySelectorAll('table[data-interactive]'), enhance);
+  })();
+  </script>
+`;
+
+/**
+ * Styles and script that make tables marked with data-interactive sortable,
+ * filterable and paginated. Append once, after the tables.
+ */
+export const INTERACTIVE_TABLE_ASSETS = INTERACTIVE_TABLE_STYLES + INTERACTIVE_TABLE_SCRIPT;
@@ -0,0 +1,159 @@
+/**
+ * User-defined XML to HTML mapping rules
+ *
+ * A rule matches elements by name or by an XPath-style location path and
+ * decides how semantic conversion renders them. The supported path syntax is
+ * the subset used by XSLT match patterns:
+ *
+ *   title            any <title> element, whatever its namespace or prefix
+ *   rss:item         <item> written with the rss prefix
+ *   book/title       <title> whose parent is <book>
+ *   /library//title  <title> anywhere below the root <library>
+ *   *                any element
+ *   item[@type]      <item> with a type attribute
+ *   item[@type='x']  <item> whose type attribute is "x"
+ *   item[2]          second <item> among its siblings
+ */
+
+import type { MappingRule } from "./schema";
+import { ELEMENT_NODE } from "./dom-utils";
+
+interface PathStep {
+  /** Whether any number of ancestors may sit between this step and the previous one */
+  descendant: boolean;
+  name: string;
+  predicates: string[];
+}
+
+const STEP_PATTERN = /(\/\/|\/)?([^\/\[\]]+)((?:\[[^\]]*\])*)/g;
+
+const parsedPatterns = new Map<string, PathStep[]>();
+
+function parsePattern(pattern: string): PathStep[] {
+  const cached = parsedPatterns.get(pattern);
+  if (cached) return cached;
+
+  const steps: PathStep[] = [];
+  for (const match of Array.from(pattern.trim().matchAll(STEP_PATTERN))) {
+    const separator = match[1];
+    steps.push({
+      // A relative pattern matches at any depth, like XSLT
+      descendant: separator === "//" || (steps.length === 0 && !separator),
+      name: match[2].trim(),
+      predicates: Array.from(match[3].matchAll(/\[([^\]]*)\]/g), (predicate) => predicate[1].trim()),
+    });
+  }
+
+  parsedPatterns.set(pattern, steps);
+  return steps;
+}
+
+/**
+ * An element as patterns see it. Elements being streamed have no DOM, so
+ * they are matched through this instead.
+ */
+export interface PathNode {
+  /** Qualified name as written, e.g. rss:item */
+  name: string;
+  getAttribute(name: string): string | null;
+  /** 1-based position among the siblings with the same name */
+  position(): number;
+}
+
+function parentElement(element: Element): Element | null {
+  const parent = element.parentNode;
+  return parent && parent.nodeType === ELEMENT_NODE ? (parent as Element) : null;
+}
+
+/**
+ * 1-based position of an element among its siblings with the same name
+ */
+function siblingPosition(element: Element): number {
+  let position = 1;
+  for (let sibling = element.previousSibling; sibling; sibling = sibling.previousSibling) {
+    if (sibling.nodeType === ELEMENT_NODE && (sibling as Element).tagName === element.tagName) {
+      position++;
+    }
+  }
+  return position;
+}
+
+function matchesPredicate(node: PathNode, predicate: string): boolean {
+  if (/^\d+$/.test(predicate)) {
+    return node.position() === Number(predicate);
+  }
+
+  const attribute = predicate.match(/^@([^\s=]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'))?$/);
+  if (attribute) {
+    const value = attribute[2] ?? attribute[3];
+    const actual = node.getAttribute(attribute[1]);
+    return value === undefined ? actual !== null : actual === value;
+  }
+
+  // Unsupported predicates never match
+  return false;
+}
+
+// Names without a prefix match the local name, so "item" matches <rss:item> too
+function matchesName(node: PathNode, name: string): boolean {
+  if (name === "*" || name === node.name) return true;
+  return !name.includes(":") && name === node.name.slice(node.name.indexOf(":") + 1);
+}
+
+function matchesStep(node: PathNode, step: PathStep): boolean {
+  return matchesName(node, step.name)
+    && step.predicates.every((predicate) => matchesPredicate(node, predicate));
+}
+
+/**
+ * Matches steps[0..index] right to left, `path[nodeIndex]` being the candidate
+ * for steps[index]. Index -1 stands for the document above the root element.
+ */
+function matchesSteps(path: PathNode[], nodeIndex: number, steps: PathStep[], index: number): boolean {
+  if (index < 0) return nodeIndex < 0;
+  if (nodeIndex < 0 || !matchesStep(path[nodeIndex], steps[index])) return false;
+
+  if (!steps[index].descendant) {
+    return matchesSteps(path, nodeIndex - 1, steps, index - 1);
+  }
+
+  for (let ancestor = nodeIndex - 1; ancestor >= -1; ancestor--) {
+    if (matchesSteps(path, ancestor, steps, index - 1)) return true;
+  }
+  return false;
+}
+
+/**
+ * Checks whether the last node of a path matches a pattern
+ * @param path Ancestors from the root element down to the node to test
+ * @param pattern Element name or location path
+ */
+export function matchesPath(path: PathNode[], pattern: string): boolean {
+  const steps = parsePattern(pattern);
+  return steps.length > 0 && path.length > 0 && matchesSteps(path, path.length - 1, steps, steps.length - 1);
+}
+
+/**
+ * Checks whether an element matches a rule pattern
+ * @param element Element to test
+ * @param pattern Element name or location path
+ */
+export function matchesPattern(element: Element, pattern: string): boolean {
+  const path: PathNode[] = [];
+  for (let ancestor: Element | null = element; ancestor; ancestor = parentElement(ancestor)) {
+    const current = ancestor;
+    path.unshift({
+      name: current.tagName,
+      getAttribute: (name) => (current.hasAttribute(name) ? current.getAttribute(name) : null),
+      position: () => siblingPosition(current),
+    });
+  }
+  return matchesPath(path, pattern);
+}
+
+/**
+ * Finds the rule that applies to an element, the first match wins
+ */
+export function findMappingRule(element: Element, rules: MappingRule[]): MappingRule | undefined {
+  return rules.find((rule) => matchesPattern(element, rule.match));
+}
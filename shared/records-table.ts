@@ -0,0 +1,195 @@
+/**
+ * Records tables
+ *
+ * Repeated elements are rendered as table rows. Attributes and leaf children
+ * become columns, nested elements become dotted columns or sub-tables. The
+ * header and row helpers are shared with streaming conversion, which renders
+ * one record at a time.
+ */
+
+import { escapeHtml } from './html-sanitizer';
+import { sourceAttribute } from './source-map';
+import { dataAttributes, displayName, expandedName } from './xml-namespaces';
+import type { ConvertOptions } from './xml-converter';
+
+export const RECORD_TABLE_STYLES = `
+  <style>
+    .xml-table-container { font-family: system-ui, sans-serif; }
+    .table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+    .table th, .table td { padding: 0.75rem; text-align: left; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+    .table th { font-weight: 600; background-color: #f8fafc; }
+    .table-responsive { overflow-x: auto; }
+    .table tr:nth-child(even) { background-color: #f8fafc; }
+    .table-nested { margin: 0.5rem 0 0; font-size: 0.875rem; background-color: #fff; }
+    .table-nested th, .table-nested td { padding: 0.375rem 0.5rem; }
+    .xml-subtable summary { cursor: pointer; color: #0369a1; }
+    .xml-cell-list { margin: 0; padding-left: 1.25rem; }
+  </style>
+`;
+
+/**
+ * A table cell: text with the attribute or element it came from, or
+ * repeated elements rendered as a list or sub-table
+ */
+export type RecordCell = { text: string; source: Element | Attr } | { items: Element[] };
+
+export interface RecordColumn {
+  label: string;
+  isAttribute: boolean;
+}
+
+/**
+ * Whether an element only wraps a list, e.g. <authors><author/><author/></authors>
+ */
+function isListElement(element: Element): boolean {
+  const children = Array.from(element.children);
+  return children.length > 1
+    && dataAttributes(element).length === 0
+    && children.every(child => expandedName(child) === expandedName(children[0]));
+}
+
+/**
+ * Flattens a record into cells keyed by column. Attributes and leaf children
+ * become columns, nested singletons are flattened into dotted columns
+ * (address.city) and repeated children are kept together in one cell.
+ */
+export function flattenRecord(
+  element: Element,
+  options: ConvertOptions,
+  columns: Map<string, RecordColumn>,
+  cells: Map<string, RecordCell>,
+  keyPrefix = '',
+  labelPrefix = '',
+): void {
+  const addCell = (key: string, label: string, isAttribute: boolean, cell: RecordCell) => {
+    if (!columns.has(key)) columns.set(key, { label, isAttribute });
+    cells.set(key, cell);
+  };
+
+  dataAttributes(element).forEach(attr => {
+    const label = labelPrefix + displayName(attr, options.prefixMode, options.namespaceLabels);
+    addCell(`${keyPrefix}@${expandedName(attr)}`, label, true, { text: attr.value, source: attr });
+  });
+
+  // Group children by name, keeping the order they first appear in
+  const groups = new Map<string, Element[]>();
+  Array.from(element.children).forEach(child => {
+    const key = keyPrefix + expandedName(child);
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = []));
+    group.push(child);
+  });
+
+  groups.forEach((group, key) => {
+    const child = group[0];
+    const label = labelPrefix + displayName(child, options.prefixMode, options.namespaceLabels);
+
+    if (group.length > 1) {
+      addCell(key, label, false, { items: group });
+    } else if (child.children.length === 0 && dataAttributes(child).length === 0) {
+      addCell(key, label, false, { text: child.textContent || '', source: child });
+    } else if (isListElement(child)) {
+      addCell(key, label, false, { items: Array.from(child.children) });
+    } else {
+      flattenRecord(child, options, columns, cells, `${key}/`, `${label}.`);
+    }
+  });
+}
+
+/**
+ * Renders repeated elements, leaf values as a list and records as an
+ * expandable sub-table
+ */
+function renderRecordItems(items: Element[], options: ConvertOptions): string {
+  const isLeaf = (item: Element) => item.children.length === 0 && dataAttributes(item).length === 0;
+  if (items.every(isLeaf)) {
+    return `<ul class="xml-cell-list">${items
+      .map(item => `<li${sourceAttribute(item, options)}>${escapeHtml(item.textContent || '')}</li>`)
+      .join('')}</ul>`;
+  }
+
+  const label = displayName(items[0], options.prefixMode, options.namespaceLabels);
+  return `<details class="xml-subtable"><summary>${escapeHtml(label)} (${items.length})</summary>${
+    renderRecordTable(items, options, true)
+  }</details>`;
+}
+
+/**
+ * Opening tag of a top-level records table
+ */
+export function recordTableTag(options: ConvertOptions): string {
+  return `<table class="table"${options.interactiveTables ? ' data-interactive' : ''} border="1" cellpadding="8" cellspacing="0">`;
+}
+
+/**
+ * Renders the header row naming the columns
+ */
+export function renderRecordHeader(columns: Map<string, RecordColumn>): string {
+  // Attributes are shown by name unless a child element has the same name
+  const labelCounts = new Map<string, number>();
+  columns.forEach(column => labelCounts.set(column.label, (labelCounts.get(column.label) ?? 0) + 1));
+  const headerLabel = (column: RecordColumn) =>
+    column.isAttribute && labelCounts.get(column.label)! > 1 ? `@${column.label}` : column.label;
+
+  let html = '<thead><tr>';
+  columns.forEach(column => {
+    html += `<th>${escapeHtml(headerLabel(column))}</th>`;
+  });
+  return `${html}</tr></thead>`;
+}
+
+/**
+ * Renders a record as a row with one cell per column, in column order
+ * @param record The element the cells were flattened from
+ */
+export function renderRecordRow(
+  cells: Map<string, RecordCell>,
+  columns: Map<string, RecordColumn>,
+  options: ConvertOptions,
+  record?: Element,
+): string {
+  let html = `<tr${sourceAttribute(record, options)}>`;
+  columns.forEach((_column, key) => {
+    const cell = cells.get(key);
+    if (!cell) {
+      html += '<td></td>';
+    } else if ('items' in cell) {
+      html += `<td>${renderRecordItems(cell.items, options)}</td>`;
+    } else {
+      html += `<td${sourceAttribute(cell.source, options)}>${escapeHtml(cell.text)}</td>`;
+    }
+  });
+  return `${html}</tr>`;
+}
+
+/**
+ * Renders records (elements with the same structure) as a table
+ */
+function renderRecordTable(rows: Element[], options: ConvertOptions, isNested = false): string {
+  const columns = new Map<string, RecordColumn>();
+  const records = rows.map(row => {
+    const cells = new Map<string, RecordCell>();
+    flattenRecord(row, options, columns, cells);
+    return cells;
+  });
+
+  let html = isNested ? '<table class="table table-nested">' : recordTableTag(options);
+  html += renderRecordHeader(columns);
+  html += `<tbody>${records.map((cells, index) => renderRecordRow(cells, columns, options, rows[index])).join('')}</tbody>`;
+  return `${html}</table>`;
+}
+
+/**
+ * Converts tabular XML data to an HTML table
+ * @param rows The repeated elements, one per table row
+ */
+export function convertToHtmlTable(rows: Element[], options: ConvertOptions): string {
+  if (rows.length === 0) return '';
+
+  return `
+    <div class="xml-table-container">
+      ${RECORD_TABLE_STYLES}
+      <div class="table-responsive">${renderRecordTable(rows, options)}</div>
+    </div>
+  `;
+}
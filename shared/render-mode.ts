@@ -0,0 +1,159 @@
+/**
+ * Render modes and tabular detection
+ *
+ * In auto mode the converter picks a renderer from the document: known
+ * formats (the table format, feeds, SVG) first, then a table when the root's
+ * children look like records, semantic HTML otherwise. Every decision comes
+ * with the reasons for it so the UI can explain the output.
+ */
+
+import { dataAttributes, expandedName, localNameOf } from "./xml-namespaces";
+import { matchesPattern } from "./mapping-rules";
+
+export type RenderMode = "auto" | "table" | "semantic" | "tree" | "raw";
+
+export const RENDER_MODES: RenderMode[] = ["auto", "table", "semantic", "tree", "raw"];
+
+/** What a document was rendered as, auto mode resolves to one of these */
+export type Renderer = "table-format" | "atom" | "rss" | "svg" | "table" | "semantic" | "tree" | "raw";
+
+export interface RenderExplanation {
+  renderer: Renderer;
+  /** Why the renderer was chosen, in the order the checks ran */
+  reasons: string[];
+}
+
+export interface TableDetectionOptions {
+  /** Root element names that always render as a table */
+  tableNames: string[];
+  /** Minimum number of repeated elements */
+  minRows: number;
+  /** Minimum share (0 to 1) of the children that are repeated elements */
+  minRowShare: number;
+  /** Minimum average number of fields (attributes and child elements) per row */
+  minFields: number;
+}
+
+export const DEFAULT_TABLE_DETECTION: TableDetectionOptions = {
+  tableNames: ["table", "grid", "dataset", "records", "rows"],
+  minRows: 2,
+  minRowShare: 0.8,
+  minFields: 1,
+};
+
+export interface TableDetection {
+  isTable: boolean;
+  /** The repeated elements, i.e. the table rows */
+  rows: Element[];
+  reasons: string[];
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Decides whether an element's children are records that read well as
+ * table rows. Rows are the children with the most common name, other
+ * children are ignored.
+ */
+export function detectTable(element: Element, overrides: Partial<TableDetectionOptions> = {}): TableDetection {
+  const options = { ...DEFAULT_TABLE_DETECTION, ...overrides };
+  const name = `<${element.nodeName}>`;
+  const children = Array.from(element.children);
+
+  if (children.length === 0) {
+    return { isTable: false, rows: [], reasons: [`${name} has no child elements`] };
+  }
+
+  // The most common child name, the first one seen wins a tie
+  const groups = new Map<string, Element[]>();
+  children.forEach((child) => {
+    const key = expandedName(child);
+    let group = groups.get(key);
+    if (!group) groups.set(key, (group = []));
+    group.push(child);
+  });
+  const rows = Array.from(groups.values()).reduce((most, group) => (group.length > most.length ? group : most));
+  const rowName = `<${rows[0].nodeName}>`;
+
+  const share = rows.length / children.length;
+  const averageFields =
+    rows.reduce((sum, row) => sum + row.children.length + dataAttributes(row).length, 0) / rows.length;
+
+  const reasons: string[] = [];
+  const isNamedTable = options.tableNames.includes(localNameOf(element).toLowerCase());
+  if (isNamedTable) {
+    reasons.push(`${name} is one of the table element names (${options.tableNames.join(", ")})`);
+  }
+
+  const checks = [
+    rows.length >= options.minRows
+      ? { passed: true, reason: `${rows.length} ${rowName} elements repeat` }
+      : { passed: false, reason: `Only ${rows.length} ${rowName} element, at least ${options.minRows} needed` },
+    share >= options.minRowShare
+      ? { passed: true, reason: `${rowName} makes up ${percent(share)} of the children` }
+      : {
+          passed: false,
+          reason: `${rowName} makes up only ${percent(share)} of the children, at least ${percent(options.minRowShare)} needed`,
+        },
+    averageFields >= options.minFields
+      ? { passed: true, reason: `Rows have ${averageFields.toFixed(1)} fields on average` }
+      : {
+          passed: false,
+          reason: `Rows have ${averageFields.toFixed(1)} fields (attributes and child elements) on average, at least ${options.minFields} needed`,
+        },
+  ];
+  checks.forEach((check) => reasons.push(check.reason));
+
+  return {
+    isTable: isNamedTable || checks.every((check) => check.passed),
+    rows,
+    reasons,
+  };
+}
+
+/**
+ * Finds the rows for table mode: the elements matching `path` when given,
+ * otherwise the shallowest element whose children look like records
+ * @param path Element name or location path, see matchesPattern
+ */
+export function findTableRows(
+  root: Element,
+  path?: string,
+  overrides: Partial<TableDetectionOptions> = {},
+): TableDetection {
+  if (path?.trim()) {
+    const rows: Element[] = [];
+    const collect = (element: Element) => {
+      if (matchesPattern(element, path)) rows.push(element);
+      Array.from(element.children).forEach(collect);
+    };
+    collect(root);
+
+    return rows.length > 0
+      ? { isTable: true, rows, reasons: [`${rows.length} elements match the row path "${path}"`] }
+      : { isTable: false, rows: [], reasons: [`No elements match the row path "${path}"`] };
+  }
+
+  // Breadth first, so the outermost list of records wins
+  // An index cursor, shifting a long queue is quadratic
+  const queue = [root];
+  for (let next = 0; next < queue.length; next++) {
+    const element = queue[next];
+    const detection = detectTable(element, overrides);
+    if (detection.isTable) {
+      const reasons = element === root
+        ? detection.reasons
+        : [`Rows are the children of <${element.nodeName}>`, ...detection.reasons];
+      return { ...detection, reasons };
+    }
+    Array.from(element.children).forEach((child) => queue.push(child));
+  }
+
+  return {
+    isTable: true,
+    rows: Array.from(root.children),
+    reasons: [`No repeating elements found, the children of <${root.nodeName}> are used as rows`],
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Incremental (SAX-style) XML parser
+ *
+ * Input is fed in chunks with write() and reported as events, so documents
+ * far larger than memory allows for a DOM can be processed. It checks
+ * well-formedness (balanced tags, quoted attributes, known entities) but
+ * does not resolve namespaces or read DTDs: only the predefined and numeric
+ * character entities are expanded.
+ */
+
+import { XmlParseError } from "./xml-errors";
+
+export interface SaxAttribute {
+  /** Qualified name as written, e.g. xlink:href */
+  name: string;
+  value: string;
+}
+
+export interface SaxHandlers {
+  openTag?(name: string, attributes: SaxAttribute[], selfClosing: boolean): void;
+  closeTag?(name: string): void;
+  /** Character data with entities expanded, may arrive in several pieces */
+  text?(text: string): void;
+  cdata?(text: string): void;
+  comment?(text: string): void;
+  processingInstruction?(target: string, data: string): void;
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const NAME_PATTERN = /^[^\s"'<>\/=!?]+/;
+const ATTRIBUTE_PATTERN = /^\s+([^\s"'<>\/=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/;
+
+export class SaxParser {
+  private buffer = "";
+  /** Where parsing is in the buffer, for error locations */
+  private position = 0;
+  private line = 1;
+  private column = 1;
+  private readonly openTags: string[] = [];
+  private seenRoot = false;
+
+  constructor(private readonly handlers: SaxHandlers) {}
+
+  /**
+   * Parses the next chunk of the document. Markup split across chunks is
+   * kept until the rest arrives.
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.parse(false);
+  }
+
+  /**
+   * Parses what is left and checks that the document is complete
+   */
+  close(): void {
+    this.parse(true);
+    if (this.openTags.length > 0) {
+      this.fail(`Unclosed element <${this.openTags[this.openTags.length - 1]}> at end of input`);
+    }
+    if (!this.seenRoot) {
+      this.fail("The document has no root element");
+    }
+  }
+
+  private parse(isFinal: boolean): void {
+    const buffer = this.buffer;
+    let position = (this.position = 0);
+
+    while (position < buffer.length) {
+      if (buffer[position] !== "<") {
+        let end = buffer.indexOf("<", position);
+        if (end === -1) {
+          // Keep a possibly incomplete entity reference for the next chunk
+          const ampersand = buffer.lastIndexOf("&");
+          end = !isFinal && ampersand >= position && buffer.indexOf(";", ampersand) === -1 ? ampersand : buffer.length;
+          if (end === position) break;
+        }
+        this.emitText(buffer.slice(position, end));
+        position = this.position = this.advance(buffer, position, end);
+        continue;
+      }
+
+      const end = this.markupEnd(buffer, position);
+      if (end === -1) {
+        if (isFinal) this.fail("Unexpected end of input inside markup");
+        break;
+      }
+      this.emitMarkup(buffer.slice(position, end));
+      position = this.position = this.advance(buffer, position, end);
+    }
+
+    this.buffer = buffer.slice(position);
+    this.position = 0;
+  }
+
+  /**
+   * Index just past the markup starting at `start`, or -1 when it is not
+   * complete yet
+   */
+  private markupEnd(buffer: string, start: number): number {
+    const delimited = (open: string, close: string) => {
+      if (!buffer.startsWith(open, start)) return undefined;
+      const end = buffer.indexOf(close, start + open.length);
+      return end === -1 ? -1 : end + close.length;
+    };
+
+    const special = delimited("<!--", "-->") ?? delimited("<![CDATA[", "]]>") ?? delimited("<?", "?>");
+    if (special !== undefined) return special;
+
+    // Prefixes of the special markup above cannot be told apart yet
+    const tail = buffer.length - start < 9 ? buffer.slice(start) : "";
+    if (tail && ("<![CDATA[".startsWith(tail) || "<!--".startsWith(tail))) {
+      return -1;
+    }
+
+    // Doctypes may carry an internal subset in brackets
+    if (buffer.startsWith("<!", start)) {
+      let depth = 0;
+      for (let index = start + 2; index < buffer.length; index++) {
+        if (buffer[index] === "[") depth++;
+        else if (buffer[index] === "]") depth--;
+        else if (buffer[index] === ">" && depth <= 0) return index + 1;
+      }
+      return -1;
+    }
+
+    // Tags end at the first > outside a quoted attribute value
+    let quote = "";
+    for (let index = start + 1; index < buffer.length; index++) {
+      const char = buffer[index];
+      if (quote) {
+        if (char === quote) quote = "";
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        return index + 1;
+      } else if (char === "<") {
+        this.fail("Unexpected < inside a tag");
+      }
+    }
+    return -1;
+  }
+
+  private emitMarkup(markup: string): void {
+    if (markup.startsWith("<!--")) {
+      this.handlers.comment?.(markup.slice(4, -3));
+    } else if (markup.startsWith("<![CDATA[")) {
+      this.checkInsideRoot("CDATA section");
+      this.handlers.cdata?.(markup.slice(9, -3));
+    } else if (markup.startsWith("<?")) {
+      const [, target = "", data = ""] = markup.slice(2, -2).match(/^(\S*)\s*([\s\S]*)$/) ?? [];
+      this.handlers.processingInstruction?.(target, data);
+    } else if (markup.startsWith("<!")) {
+      // Doctype, nothing to report
+    } else if (markup.startsWith("</")) {
+      this.closeElement(markup.slice(2, -1).trim());
+    } else {
+      this.openElement(markup);
+    }
+  }
+
+  private openElement(markup: string): void {
+    const selfClosing = markup.endsWith("/>");
+    const inner = markup.slice(1, selfClosing ? -2 : -1);
+    const name = inner.match(NAME_PATTERN)?.[0];
+    if (!name) this.fail("Invalid element name");
+
+    if (this.openTags.length === 0) {
+      if (this.seenRoot) this.fail(`Extra content after the root element: <${name}>`);
+      this.seenRoot = true;
+    }
+
+    const attributes: SaxAttribute[] = [];
+    let offset = name.length;
+    for (;;) {
+      const match = inner.slice(offset).match(ATTRIBUTE_PATTERN);
+      if (!match) break;
+      offset += match[0].length;
+
+      const attributeName = match[1];
+      if (attributes.some((attribute) => attribute.name === attributeName)) {
+        this.fail(`Attribute ${attributeName} is defined twice on <${name}>`);
+      }
+      attributes.push({ name: attributeName, value: this.decodeEntities(match[2] ?? match[3]) });
+    }
+    const rest = inner.slice(offset);
+    if (rest.trim()) {
+      this.fail(`Invalid attribute syntax in <${name}>: ${rest.trim().slice(0, 40)}`);
+    }
+
+    this.handlers.openTag?.(name, attributes, selfClosing);
+    if (selfClosing) {
+      this.handlers.closeTag?.(name);
+    } else {
+      this.openTags.push(name);
+    }
+  }
+
+  private closeElement(name: string): void {
+    const expected = this.openTags.pop();
+    if (expected === undefined) {
+      this.fail(`Unexpected closing tag </${name}>`);
+    }
+    if (expected !== name) {
+      this.fail(`Opening and ending tag mismatch: "${expected}" != "${name}"`);
+    }
+    this.handlers.closeTag?.(name);
+  }
+
+  private emitText(raw: string): void {
+    if (this.openTags.length === 0) {
+      // Only whitespace may surround the root element
+      if (raw.trim()) this.fail("Text outside the root element");
+      return;
+    }
+    const text = this.decodeEntities(raw);
+    this.handlers.text?.(text);
+  }
+
+  private checkInsideRoot(what: string): void {
+    if (this.openTags.length === 0) this.fail(`${what} outside the root element`);
+  }
+
+  private decodeEntities(text: string): string {
+    if (!text.includes("&")) return text;
+
+    return text.replace(/&([^;&\s]*);?/g, (reference, name: string) => {
+      if (!reference.endsWith(";")) this.fail(`Unterminated entity reference &${name}`);
+      if (name in PREDEFINED_ENTITIES) return PREDEFINED_ENTITIES[name];
+
+      const code = name.startsWith("#x") ? parseInt(name.slice(2), 16) : name.startsWith("#") ? parseInt(name.slice(1), 10) : NaN;
+      if (Number.isNaN(code)) this.fail(`Undefined entity &${name};`);
+      try {
+        return String.fromCodePoint(code);
+      } catch {
+        this.fail(`Invalid character reference &${name};`);
+      }
+    });
+  }
+
+  /**
+   * Moves past buffer[start..end), keeping track of the line and column
+   */
+  private advance(buffer: string, start: number, end: number): number {
+    let newline = buffer.indexOf("\n", start);
+    if (newline === -1 || newline >= end) {
+      this.column += end - start;
+      return end;
+    }
+    while (newline !== -1 && newline < end) {
+      this.line++;
+      this.column = end - newline;
+      newline = buffer.indexOf("\n", newline + 1);
+    }
+    return end;
+  }
+
+  private fail(message: string): never {
+    // Earlier input is not kept, so the excerpt shows what is left of the
+    // failing line, padded to keep the caret under the right column
+    const lineStart = this.buffer.lastIndexOf("\n", this.position - 1) + 1;
+    const lineEnd = this.buffer.indexOf("\n", this.position);
+    const known = this.buffer.slice(lineStart, lineEnd === -1 ? undefined : lineEnd);
+    const padding = " ".repeat(Math.max(0, this.column - 1 - (this.position - lineStart)));
+    const source = "\n".repeat(this.line - 1) + padding + known;
+    throw new XmlParseError(message, source, this.line, this.column);
+  }
+}
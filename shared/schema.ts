@@ -1,6 +1,11 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { XmlParseErrorDetails } from "./xml-errors";
+import { isSafeAttributeName, isSafeTagName } from "./html-sanitizer";
+import { PREFIX_MODES, type PrefixMode } from "./xml-namespaces";
+import { RENDER_MODES, type RenderExplanation, type RenderMode } from "./render-mode";
+import { CDATA_MODES, COMMENT_MODES, type CdataMode, type CommentMode } from "./content-nodes";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +20,114 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+export const mappingRuleSchema = z.object({
+  /** Element name, or an XPath-style location path such as /book/title */
+  match: z.string().trim().min(1, "A rule needs an element name or path"),
+  /** map: render with tag/classes/attributes, unwrap: keep only the children, drop: remove */
+  action: z.enum(["map", "unwrap", "drop"]).default("map"),
+  tag: z
+    .string()
+    .trim()
+    .refine((tag) => tag === "" || isSafeTagName(tag), "Tag is not allowed")
+    .optional(),
+  classes: z.array(z.string().trim().min(1)).optional(),
+  /** Source attribute name to the HTML attribute it becomes */
+  attributes: z
+    .record(z.string().refine(isSafeAttributeName, "Attribute is not allowed"))
+    .optional(),
+});
+
+export type MappingRule = z.infer<typeof mappingRuleSchema>;
+
+export const mappingProfiles = pgTable("mapping_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  rules: jsonb("rules").$type<MappingRule[]>().notNull(),
+});
+
+export const insertMappingProfileSchema = createInsertSchema(mappingProfiles, {
+  name: z.string().trim().min(1, "Profile name is required"),
+  rules: z.array(mappingRuleSchema),
+}).pick({
+  name: true,
+  rules: true,
+});
+
+export type InsertMappingProfile = z.infer<typeof insertMappingProfileSchema>;
+export type MappingProfile = typeof mappingProfiles.$inferSelect;
+
+export const convertRequestSchema = z.object({
+  xml: z.string().min(1, "XML input is required"),
+  pretty: z.boolean().optional(),
+  trustedHtml: z.boolean().optional(),
+  /** Mapping rules to apply, takes precedence over profile */
+  rules: z.array(mappingRuleSchema).optional(),
+  /** Name of a saved mapping profile to apply */
+  profile: z.string().optional(),
+  /** How namespace prefixes are shown: strip (default), keep or label */
+  prefixMode: z.enum(PREFIX_MODES as [PrefixMode, ...PrefixMode[]]).optional(),
+  /** Friendly names by namespace URI, used by the label prefix mode */
+  namespaceLabels: z.record(z.string()).optional(),
+  /** Include the script that makes tables sortable, filterable and paginated */
+  interactiveTables: z.boolean().optional(),
+  /** auto (default), table, semantic, tree or raw */
+  renderMode: z.enum(RENDER_MODES as [RenderMode, ...RenderMode[]]).optional(),
+  /** Row element name or location path for table mode */
+  tablePath: z.string().optional(),
+  /** Overrides for the heuristics used to detect records */
+  tableDetection: z
+    .object({
+      tableNames: z.array(z.string()),
+      minRows: z.number().int().min(1),
+      minRowShare: z.number().min(0).max(1),
+      minFields: z.number().min(0),
+    })
+    .partial()
+    .optional(),
+  /** CDATA sections as text (default) or HTML, sanitized unless trustedHtml */
+  cdataMode: z.enum(CDATA_MODES as [CdataMode, ...CdataMode[]]).optional(),
+  /** Comments and processing instructions: drop (default), html or visible */
+  commentMode: z.enum(COMMENT_MODES as [CommentMode, ...CommentMode[]]).optional(),
+  /** Mark output elements with the path of the XML they came from, as data-xml-path */
+  sourceMap: z.boolean().optional(),
+  /** Include the reasons for the chosen renderer in the response */
+  explain: z.boolean().optional(),
+  /**
+   * Render with this XSLT stylesheet instead of the built-in conversion. An
+   * empty string uses a stylesheet embedded in the document and referenced
+   * by <?xml-stylesheet href="#id"?>.
+   */
+  xslt: z.string().optional(),
+});
+
+export type ConvertRequest = z.infer<typeof convertRequestSchema>;
+
+/**
+ * Query options of /api/convert/stream, which takes the XML as the raw body
+ */
+export const streamConvertQuerySchema = z.object({
+  trustedHtml: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  prefixMode: convertRequestSchema.shape.prefixMode,
+  tablePath: convertRequestSchema.shape.tablePath,
+});
+
+export interface ConvertResponse {
+  html: string;
+  /** Only when requested with explain, and not for XSLT */
+  explanation?: RenderExplanation;
+}
+
+export type ApiErrorCode =
+  | "INVALID_REQUEST"
+  | "INVALID_XML"
+  | "INVALID_XSLT"
+  | "CONVERSION_FAILED"
+  | "NOT_FOUND";
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  /** Location of the problem when code is INVALID_XML */
+  details?: XmlParseErrorDetails;
+}
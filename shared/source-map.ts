@@ -0,0 +1,70 @@
+/**
+ * Source mapping
+ *
+ * With the sourceMap option, converted elements carry the location path of
+ * the XML element or attribute they came from, e.g.
+ * data-xml-path="/catalog/book[2]/title". Positions are only given when
+ * siblings share a name, the same paths the tree view shows. The editor
+ * resolves a path to its place in the XML text and back, so the preview and
+ * the source can point at each other.
+ */
+
+import { ATTRIBUTE_NODE, ELEMENT_NODE } from './dom-utils';
+import { escapeHtml } from './html-sanitizer';
+import type { ConvertOptions } from './xml-converter';
+
+export const SOURCE_PATH_ATTRIBUTE = 'data-xml-path';
+
+// Paths are built from the parent's, so each element is only placed once
+const elementPaths = new WeakMap<Node, string>();
+const childSteps = new WeakMap<Node, Map<Node, string>>();
+
+/**
+ * Names the child elements of a node, with positions for repeated names
+ */
+function stepsOf(parent: Node): Map<Node, string> {
+  let steps = childSteps.get(parent);
+  if (!steps) {
+    const children = Array.from(parent.childNodes).filter(child => child.nodeType === ELEMENT_NODE);
+    const totals = new Map<string, number>();
+    children.forEach(child => totals.set(child.nodeName, (totals.get(child.nodeName) ?? 0) + 1));
+
+    const seen = new Map<string, number>();
+    steps = new Map(children.map(child => {
+      const position = (seen.get(child.nodeName) ?? 0) + 1;
+      seen.set(child.nodeName, position);
+      return [child, totals.get(child.nodeName)! > 1 ? `${child.nodeName}[${position}]` : child.nodeName];
+    }));
+    childSteps.set(parent, steps);
+  }
+  return steps;
+}
+
+/**
+ * Location path of an element or attribute in its document
+ */
+export function sourcePath(node: Element | Attr): string {
+  if (node.nodeType === ATTRIBUTE_NODE) {
+    const owner = (node as Attr).ownerElement;
+    return `${owner ? sourcePath(owner) : ''}/@${node.nodeName}`;
+  }
+
+  let path = elementPaths.get(node);
+  if (path === undefined) {
+    const parent = node.parentNode;
+    path = parent?.nodeType === ELEMENT_NODE
+      ? `${sourcePath(parent as Element)}/${stepsOf(parent).get(node)}`
+      : `/${node.nodeName}`;
+    elementPaths.set(node, path);
+  }
+  return path;
+}
+
+/**
+ * The source path attribute for an output element, empty unless the
+ * sourceMap option is set
+ */
+export function sourceAttribute(node: Element | Attr | undefined, options: ConvertOptions): string {
+  if (!options.sourceMap || !node) return '';
+  return ` ${SOURCE_PATH_ATTRIBUTE}="${escapeHtml(sourcePath(node))}"`;
+}
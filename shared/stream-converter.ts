@@ -0,0 +1,295 @@
+/**
+ * Streaming conversion for documents too large to hold as a DOM
+ *
+ * The document is read with the SAX parser and only one record is kept in
+ * memory at a time. Each record (a table row, an RSS item or an Atom entry)
+ * is parsed on its own, with its ancestors' start tags around it so
+ * namespaces still resolve, and rendered by the same code as in-memory
+ * conversion.
+ *
+ * Table columns are taken from the first SAMPLE_SIZE records. Fields that
+ * only appear later are listed below their row. Feed headers are built from
+ * what precedes the first item, channel elements after it are ignored.
+ */
+
+import { SaxParser, type SaxAttribute } from './sax-parser';
+import { getXmlEnvironment } from './xml-environment';
+import { escapeHtml } from './html-sanitizer';
+import { matchesPath, type PathNode } from './mapping-rules';
+import {
+  RECORD_TABLE_STYLES,
+  flattenRecord,
+  recordTableTag,
+  renderRecordHeader,
+  renderRecordRow,
+  type RecordCell,
+  type RecordColumn,
+} from './records-table';
+import {
+  FEED_END,
+  FEED_ITEMS_END,
+  FEED_ITEMS_START,
+  createAtomRenderer,
+  createRssRenderer,
+  type FeedRenderer,
+} from './feed-converter';
+import type { ConvertOptions } from './xml-converter';
+
+// Records used to decide the table columns
+const SAMPLE_SIZE = 100;
+
+const STREAM_TABLE_STYLES = `
+  <style>
+    .xml-stream-extra td { font-size: 0.8125rem; color: #64748b; background-color: #fff; }
+    .xml-stream-extra-field + .xml-stream-extra-field::before { content: " · "; }
+  </style>
+`;
+
+/**
+ * Receives the output in order: start, then one call per record, then end.
+ * Concatenated, the parts form the complete HTML.
+ */
+export interface StreamSink {
+  /** Markup before the first record: styles, feed header or table header */
+  start(html: string): void;
+  /** A table row or feed card */
+  row(html: string): void;
+  /** Markup after the last record */
+  end(html: string): void;
+}
+
+export type StreamKind = 'table' | 'rss' | 'atom';
+
+interface OpenElement extends PathNode {
+  startTag: string;
+  /** Children seen so far by name, for sibling positions */
+  childCounts: Map<string, number>;
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function startTag(name: string, attributes: SaxAttribute[]): string {
+  return `<${name}${attributes.map(attr => ` ${attr.name}="${escapeHtml(attr.value)}"`).join('')}>`;
+}
+
+/**
+ * Converts a document fed in chunks. Supports tabular documents (rows are
+ * the root's children, or the elements matching options.tablePath) and
+ * RSS/Atom feeds.
+ */
+export class StreamConverter {
+  private readonly parser: SaxParser;
+  private readonly open: OpenElement[] = [];
+  private kind: StreamKind = 'table';
+  private started = false;
+  private recordCount = 0;
+
+  /** Markup of the record being read, and its depth */
+  private record: { xml: string; depth: number } | null = null;
+  /** Feeds: everything before the first item, to render the header from */
+  private headerXml = '';
+  private feed: FeedRenderer | null = null;
+  /** Tables: columns from the sample, and the records read until they are known */
+  private readonly columns = new Map<string, RecordColumn>();
+  private readonly pending: Map<string, RecordCell>[] = [];
+
+  constructor(private readonly sink: StreamSink, private readonly options: ConvertOptions = {}) {
+    this.parser = new SaxParser({
+      // Self-closing tags are followed by their closeTag event
+      openTag: (name, attributes) => this.openTag(name, attributes),
+      closeTag: name => this.closeTag(name),
+      text: text => this.append(escapeHtml(text)),
+      cdata: text => this.append(escapeHtml(text)),
+    });
+  }
+
+  /** What the document is rendered as, known once the root element is read */
+  get documentKind(): StreamKind {
+    return this.kind;
+  }
+
+  /** Records converted so far */
+  get rowCount(): number {
+    return this.recordCount;
+  }
+
+  write(chunk: string): void {
+    this.parser.write(chunk);
+  }
+
+  /**
+   * Finishes the document, throwing an XmlParseError if it is incomplete
+   */
+  close(): void {
+    this.parser.close();
+
+    if (this.kind === 'table') {
+      this.startTable();
+      if (this.started) this.sink.end('</tbody></table></div></div>');
+    } else if (this.feed) {
+      this.sink.end(FEED_ITEMS_END + FEED_END);
+    } else {
+      // A feed without items
+      this.sink.start(this.feedRenderer(this.headerXml).header());
+      this.sink.end(FEED_END);
+    }
+  }
+
+  private openTag(name: string, attributes: SaxAttribute[]): void {
+    const parent = this.open[this.open.length - 1];
+    const position = (parent?.childCounts.get(name) ?? 0) + 1;
+    parent?.childCounts.set(name, position);
+
+    const element: OpenElement = {
+      name,
+      startTag: startTag(name, attributes),
+      childCounts: new Map(),
+      getAttribute: attributeName => attributes.find(attr => attr.name === attributeName)?.value ?? null,
+      position: () => position,
+    };
+    this.open.push(element);
+
+    if (this.open.length === 1) {
+      const rootName = localName(name);
+      this.kind = rootName === 'feed' ? 'atom' : ['rss', 'RDF', 'channel'].includes(rootName) ? 'rss' : 'table';
+    }
+
+    if (this.record) {
+      this.record.xml += element.startTag;
+    } else if (this.isRecord(name)) {
+      this.record = { xml: element.startTag, depth: this.open.length };
+    } else if (this.kind !== 'table' && !this.feed) {
+      this.headerXml += element.startTag;
+    }
+  }
+
+  private closeTag(name: string): void {
+    const closing = `</${name}>`;
+    if (this.record) {
+      this.record.xml += closing;
+      if (this.record.depth === this.open.length) {
+        this.convertRecord(this.record.xml);
+        this.record = null;
+      }
+    } else if (this.kind !== 'table' && !this.feed) {
+      this.headerXml += closing;
+    }
+    this.open.pop();
+  }
+
+  private append(markup: string): void {
+    if (this.record) {
+      this.record.xml += markup;
+    } else if (this.kind !== 'table' && !this.feed) {
+      this.headerXml += markup;
+    }
+  }
+
+  private isRecord(name: string): boolean {
+    const depth = this.open.length;
+    const parent = this.open[depth - 2];
+
+    switch (this.kind) {
+      case 'atom':
+        return depth === 2 && localName(name) === 'entry';
+      case 'rss':
+        return localName(name) === 'item' && !!parent && ['channel', 'RDF'].includes(localName(parent.name));
+      default:
+        return this.options.tablePath?.trim() ? matchesPath(this.open, this.options.tablePath) : depth === 2;
+    }
+  }
+
+  /**
+   * Parses a record with its ancestors around it, so prefixes declared
+   * higher up still resolve
+   * @param depth How many of the open elements are ancestors
+   */
+  private parseRecord(xml: string, depth: number): Element {
+    const ancestors = this.open.slice(0, depth);
+    const wrapped = ancestors.map(element => element.startTag).join('')
+      + xml
+      + ancestors.map(element => `</${element.name}>`).reverse().join('');
+
+    let element: Element = (this.options.environment ?? getXmlEnvironment()).parse(wrapped).documentElement;
+    for (let level = 0; level < depth; level++) {
+      element = element.children[0];
+    }
+    return element;
+  }
+
+  private feedRenderer(headerXml: string): FeedRenderer {
+    // Close whatever is still open, the record being read excepted
+    const closing = this.open
+      .slice(0, this.record ? this.record.depth - 1 : this.open.length)
+      .map(element => `</${element.name}>`)
+      .reverse()
+      .join('');
+    const root = (this.options.environment ?? getXmlEnvironment()).parse(headerXml + closing).documentElement;
+    return this.kind === 'atom' ? createAtomRenderer(root, this.options) : createRssRenderer(root, this.options);
+  }
+
+  private convertRecord(xml: string): void {
+    const element = this.parseRecord(xml, this.open.length - 1);
+    this.recordCount++;
+
+    if (this.kind !== 'table') {
+      if (!this.feed) {
+        this.feed = this.feedRenderer(this.headerXml);
+        this.headerXml = '';
+        this.sink.start(this.feed.header() + FEED_ITEMS_START);
+      }
+      this.sink.row(this.feed.item(element));
+      return;
+    }
+
+    if (!this.started) {
+      const cells = new Map<string, RecordCell>();
+      flattenRecord(element, this.options, this.columns, cells);
+      this.pending.push(cells);
+      if (this.pending.length === SAMPLE_SIZE) this.startTable();
+      return;
+    }
+
+    // Columns are fixed once the header is written
+    const rowColumns = new Map(this.columns);
+    const cells = new Map<string, RecordCell>();
+    flattenRecord(element, this.options, rowColumns, cells);
+    this.sink.row(renderRecordRow(cells, this.columns, this.options) + this.renderExtraFields(cells, rowColumns));
+  }
+
+  /**
+   * Writes the table header and the sampled records
+   */
+  private startTable(): void {
+    if (this.started || this.pending.length === 0) return;
+    this.started = true;
+
+    // Sorting and paging would only see the rows loaded so far
+    const tableOptions = { ...this.options, interactiveTables: false };
+    this.sink.start(
+      `<div class="xml-table-container">${RECORD_TABLE_STYLES}${STREAM_TABLE_STYLES}<div class="table-responsive">`
+      + recordTableTag(tableOptions)
+      + renderRecordHeader(this.columns)
+      + '<tbody>',
+    );
+    this.pending.forEach(cells => this.sink.row(renderRecordRow(cells, this.columns, this.options)));
+    this.pending.length = 0;
+  }
+
+  /**
+   * Lists fields missing from the header in a row spanning the table
+   */
+  private renderExtraFields(cells: Map<string, RecordCell>, rowColumns: Map<string, RecordColumn>): string {
+    const fields: string[] = [];
+    cells.forEach((cell, key) => {
+      if (this.columns.has(key)) return;
+      const value = 'items' in cell ? cell.items.map(item => (item.textContent || '').trim()).join(', ') : cell.text;
+      fields.push(`<span class="xml-stream-extra-field"><strong>${escapeHtml(rowColumns.get(key)!.label)}:</strong> ${escapeHtml(value)}</span>`);
+    });
+    return fields.length > 0
+      ? `<tr class="xml-stream-extra"><td colspan="${this.columns.size}">${fields.join('')}</td></tr>`
+      : '';
+  }
+}
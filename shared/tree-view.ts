@@ -0,0 +1,198 @@
+/**
+ * Tree view rendering
+ *
+ * Renders any XML document as a collapsible tree of elements, attributes,
+ * text, comments, CDATA sections and processing instructions. Nodes are
+ * <details> elements, so the tree folds without scripts; a small inline
+ * script adds expand all/collapse all and a breadcrumb of the selected
+ * node's path.
+ */
+
+import {
+  CDATA_SECTION_NODE,
+  COMMENT_NODE,
+  ELEMENT_NODE,
+  PROCESSING_INSTRUCTION_NODE,
+  TEXT_NODE,
+} from './dom-utils';
+import { escapeHtml } from './html-sanitizer';
+import { SOURCE_PATH_ATTRIBUTE } from './source-map';
+import { dataAttributes } from './xml-namespaces';
+
+// Levels expanded initially, deeper nodes start collapsed so large documents stay readable
+const OPEN_DEPTH = 3;
+
+interface TreeCounts {
+  elements: number;
+  attributes: number;
+  text: number;
+  comments: number;
+  cdata: number;
+}
+
+const TREE_STYLES = `
+  <style>
+    .xml-tree { font-family: ui-monospace, monospace; font-size: 0.875rem; line-height: 1.6; }
+    .xml-tree-toolbar { display: flex; flex-wrap: wrap; gap: 0.5rem; align-items: center; margin-bottom: 0.5rem; font-family: system-ui, sans-serif; }
+    .xml-tree-toolbar button { font: inherit; font-size: 0.8125rem; padding: 0.125rem 0.625rem; border: 1px solid #cbd5e1; border-radius: 0.25rem; background: #fff; cursor: pointer; }
+    .xml-tree-stats { color: #64748b; font-size: 0.8125rem; }
+    .xml-tree-breadcrumbs { font-size: 0.8125rem; color: #334155; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 0.25rem; padding: 0.25rem 0.5rem; margin-bottom: 0.5rem; overflow-x: auto; white-space: nowrap; }
+    .xml-tree ul { list-style: none; padding-left: 1.25rem; margin: 0; border-left: 1px dotted #cbd5e1; }
+    .xml-tree > ul { border-left: none; padding-left: 0; }
+    .xml-tree summary { cursor: pointer; }
+    .xml-tree summary:focus { outline: 2px solid #93c5fd; outline-offset: 1px; }
+    .xml-tree-element { color: #0369a1; }
+    .xml-tree-attribute-name { color: #7c3aed; }
+    .xml-tree-attribute-value { color: #b45309; }
+    .xml-tree-text { color: #0f172a; white-space: pre-wrap; }
+    .xml-tree-comment { color: #15803d; font-style: italic; white-space: pre-wrap; }
+    .xml-tree-cdata { color: #9f1239; white-space: pre-wrap; }
+    .xml-tree-pi { color: #64748b; }
+    .xml-tree-count { color: #94a3b8; font-size: 0.75rem; margin-left: 0.5rem; }
+  </style>
+`;
+
+// Buttons and breadcrumbs are hidden until the script runs, so they never show dead
+const TREE_SCRIPT = `
+  <script>
+  (function () {
+    Array.prototype.forEach.call(document.querySelectorAll('.xml-tree'), function (tree) {
+      var breadcrumbs = tree.querySelector('.xml-tree-breadcrumbs');
+      Array.prototype.forEach.call(tree.querySelectorAll('[data-tree-action]'), function (button) {
+        button.hidden = false;
+        button.addEventListener('click', function () {
+          var open = button.getAttribute('data-tree-action') === 'expand';
+          Array.prototype.forEach.call(tree.querySelectorAll('details'), function (details) { details.open = open; });
+        });
+      });
+
+      var select = function (event) {
+        var node = event.target.closest && event.target.closest('[${SOURCE_PATH_ATTRIBUTE}]');
+        if (!node || !tree.contains(node)) return;
+        breadcrumbs.hidden = false;
+        breadcrumbs.textContent = node.getAttribute('${SOURCE_PATH_ATTRIBUTE}').split('/').filter(Boolean).join(' \\u203a ');
+      };
+      tree.addEventListener('click', select);
+      tree.addEventListener('focusin', select);
+    });
+  })();
+  </script>
+`;
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function childCount(count: number): string {
+  return `${count} ${count === 1 ? 'child' : 'children'}`;
+}
+
+function renderStartTag(element: Element, counts: TreeCounts): string {
+  const attributes = dataAttributes(element)
+    .map((attr) => {
+      counts.attributes++;
+      return ` <span class="xml-tree-attribute-name">${escapeHtml(attr.name)}</span>=<span class="xml-tree-attribute-value">"${escapeHtml(attr.value)}"</span>`;
+    })
+    .join('');
+  return `<span class="xml-tree-element">&lt;${escapeHtml(element.nodeName)}</span>${attributes}<span class="xml-tree-element">&gt;</span>`;
+}
+
+/**
+ * Renders a node and its descendants
+ * @param path Location path of the node, shown in the breadcrumbs and
+ * matching the paths in source-map.ts
+ */
+function renderNode(node: Node, path: string, depth: number, counts: TreeCounts): string {
+  if (node.nodeType === TEXT_NODE) {
+    const text = (node.nodeValue || '').trim();
+    if (!text) return '';
+    counts.text++;
+    return `<li class="xml-tree-text">${escapeHtml(text)}</li>`;
+  }
+  if (node.nodeType === CDATA_SECTION_NODE) {
+    counts.cdata++;
+    return `<li class="xml-tree-cdata">&lt;![CDATA[${escapeHtml(node.nodeValue || '')}]]&gt;</li>`;
+  }
+  if (node.nodeType === COMMENT_NODE) {
+    counts.comments++;
+    return `<li class="xml-tree-comment">&lt;!--${escapeHtml(node.nodeValue || '')}--&gt;</li>`;
+  }
+  if (node.nodeType === PROCESSING_INSTRUCTION_NODE) {
+    const instruction = node as ProcessingInstruction;
+    // The parser reports the XML declaration as an instruction
+    if (instruction.target === 'xml') return '';
+    return `<li class="xml-tree-pi">&lt;?${escapeHtml(instruction.target)} ${escapeHtml(instruction.data)}?&gt;</li>`;
+  }
+  if (node.nodeType !== ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  counts.elements++;
+  const startTag = renderStartTag(element, counts);
+  const endTag = `<span class="xml-tree-element">&lt;/${escapeHtml(element.nodeName)}&gt;</span>`;
+  const childNodes = Array.from(element.childNodes);
+
+  // Elements holding only text are shown on one line
+  if (childNodes.every((child) => child.nodeType === TEXT_NODE)) {
+    const text = (element.textContent || '').trim();
+    if (text) counts.text++;
+    return `<li ${SOURCE_PATH_ATTRIBUTE}="${escapeHtml(path)}" tabindex="-1">${startTag}${
+      text ? `<span class="xml-tree-text">${escapeHtml(text)}</span>` : ''
+    }${endTag}</li>`;
+  }
+
+  // Positions tell apart siblings with the same name, as in XPath
+  const seen = new Map<string, number>();
+  const totals = new Map<string, number>();
+  Array.from(element.children).forEach((child) => totals.set(child.nodeName, (totals.get(child.nodeName) ?? 0) + 1));
+
+  const children = childNodes
+    .map((child) => {
+      let childPath = path;
+      if (child.nodeType === ELEMENT_NODE) {
+        const name = child.nodeName;
+        const position = (seen.get(name) ?? 0) + 1;
+        seen.set(name, position);
+        childPath = `${path}/${name}${totals.get(name)! > 1 ? `[${position}]` : ''}`;
+      }
+      return renderNode(child, childPath, depth + 1, counts);
+    })
+    .filter(Boolean);
+
+  return `<li><details ${SOURCE_PATH_ATTRIBUTE}="${escapeHtml(path)}"${depth < OPEN_DEPTH ? ' open' : ''}><summary>${startTag}<span class="xml-tree-count">${childCount(children.length)}</span></summary><ul>${children.join('')}</ul>${endTag}</details></li>`;
+}
+
+/**
+ * Converts a document to a collapsible tree, including the comments and
+ * processing instructions around the root element
+ */
+export function convertToTreeHtml(rootElement: Element): string {
+  const counts: TreeCounts = { elements: 0, attributes: 0, text: 0, comments: 0, cdata: 0 };
+  const document = rootElement.ownerDocument;
+  const nodes = document ? Array.from(document.childNodes) : [rootElement];
+
+  const tree = nodes
+    .map((node) => renderNode(node, node === rootElement ? `/${rootElement.nodeName}` : '', 0, counts))
+    .join('');
+
+  const stats = [
+    plural(counts.elements, 'element'),
+    plural(counts.attributes, 'attribute'),
+    plural(counts.text, 'text node'),
+    plural(counts.comments, 'comment'),
+    `${counts.cdata} CDATA`,
+  ].join(' · ');
+
+  return `
+    <div class="xml-tree">
+      ${TREE_STYLES}
+      <div class="xml-tree-toolbar">
+        <button type="button" data-tree-action="expand" hidden>Expand all</button>
+        <button type="button" data-tree-action="collapse" hidden>Collapse all</button>
+        <span class="xml-tree-stats">${stats}</span>
+      </div>
+      <nav class="xml-tree-breadcrumbs" aria-label="Path" hidden></nav>
+      <ul>${tree}</ul>
+      ${TREE_SCRIPT}
+    </div>
+  `;
+}
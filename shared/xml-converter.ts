@@ -0,0 +1,703 @@
+/**
+ * XML to HTML converter utility functions
+ *
+ * Shared between the client, the server and the CLI. Parsing and serializing
+ * go through an XmlEnvironment so the same engine runs on any DOM.
+ */
+
+import jsBeautify from 'js-beautify';
+import { getXmlEnvironment, type XmlEnvironment } from './xml-environment';
+import { XmlParseError } from './xml-errors';
+import {
+  CDATA_SECTION_NODE,
+  COMMENT_NODE,
+  ELEMENT_NODE,
+  PROCESSING_INSTRUCTION_NODE,
+  TEXT_NODE,
+  findChildren,
+} from './dom-utils';
+import {
+  escapeHtml,
+  isSafeAttributeName,
+  isSafeTagName,
+  isUrlAttribute,
+  safeUrl,
+  sanitizeHtml,
+  stripActiveContent,
+  type SanitizeOptions,
+} from './html-sanitizer';
+import { findMappingRule } from './mapping-rules';
+import { convertAtomFeedToHtml, convertRssFeedToHtml } from './feed-converter';
+import { INTERACTIVE_TABLE_ASSETS } from './interactive-table';
+import { convertToTreeHtml } from './tree-view';
+import { convertToHtmlTable } from './records-table';
+import { sourceAttribute } from './source-map';
+import {
+  ANNOTATION_STYLES,
+  renderComment,
+  renderProcessingInstruction,
+  type CdataMode,
+  type CommentMode,
+} from './content-nodes';
+import {
+  detectTable,
+  findTableRows,
+  type RenderExplanation,
+  type RenderMode,
+  type TableDetectionOptions,
+} from './render-mode';
+import {
+  NS,
+  isNamed,
+  isNamespaceDeclaration,
+  localNameOf,
+  qname,
+  type PrefixMode,
+} from './xml-namespaces';
+import type { MappingRule } from './schema';
+
+// js-beautify is CommonJS, so named imports fail under Node's ESM loader
+const { html_beautify: beautifyHtml } = jsBeautify;
+
+export interface ConvertOptions {
+  /** Parser/serializer to use, defaults to the registered environment */
+  environment?: XmlEnvironment;
+  /**
+   * Pass HTML embedded in the source (feed bodies, inline SVG) through
+   * unchanged instead of sanitizing it. Only enable for trusted documents.
+   */
+  trustedHtml?: boolean;
+  /** Overrides for the allowlist used to sanitize embedded HTML */
+  sanitize?: Partial<SanitizeOptions>;
+  /** User-defined rules for semantic output, the first matching rule wins */
+  mappingRules?: MappingRule[];
+  /** How namespace prefixes appear in table headers and attribute names, defaults to strip */
+  prefixMode?: PrefixMode;
+  /** Friendly names by namespace URI for the label prefix mode */
+  namespaceLabels?: Record<string, string>;
+  /**
+   * Include a script that makes tables sortable, filterable and paginated.
+   * The preview has to allow scripts for it to run.
+   */
+  interactiveTables?: boolean;
+  /** How to render the document, defaults to auto, see explainConversion */
+  renderMode?: RenderMode;
+  /** Row element name or location path for table mode, detected when empty */
+  tablePath?: string;
+  /** Overrides for the heuristics auto and table mode use to find records */
+  tableDetection?: Partial<TableDetectionOptions>;
+  /**
+   * How CDATA sections are written in semantic output, defaults to text.
+   * As HTML, they are sanitized unless trustedHtml is set.
+   */
+  cdataMode?: CdataMode;
+  /** What happens to comments and processing instructions in semantic output, defaults to drop */
+  commentMode?: CommentMode;
+  /**
+   * Mark output elements with the path of the XML they came from, see
+   * source-map.ts. Not available when streaming.
+   */
+  sourceMap?: boolean;
+  /** Called once the document is parsed, before it is rendered, e.g. to report progress */
+  onParsed?: (xmlDoc: Document) => void;
+  /** Receives the renderer choice, the same explainConversion gives without detecting it twice */
+  onExplained?: (explanation: RenderExplanation) => void;
+}
+
+const SOAP_NAMESPACES = [NS.soap11, NS.soap12];
+
+/**
+ * Returns the message inside a SOAP envelope's body, or the element itself
+ * when it is not an envelope
+ */
+function unwrapSoapEnvelope(element: Element): Element {
+  if (!isNamed(element, 'Envelope', SOAP_NAMESPACES)) return element;
+
+  const body = findChildren(element, SOAP_NAMESPACES.map(ns => qname(ns, 'Body')))[0];
+  return body?.children[0] ?? element;
+}
+
+/**
+ * Whether the element is the root of an RSS (0.9x, 1.0, 2.0) feed
+ */
+function isRssElement(element: Element): boolean {
+  return isNamed(element, 'rss')
+    || isNamed(element, 'channel', [null, NS.rss1])
+    || isNamed(element, 'RDF', [NS.rdf]);
+}
+
+interface RenderDecision extends RenderExplanation {
+  /** Root of the content, the payload for SOAP messages */
+  rootElement: Element;
+  /** Rows for the table renderer */
+  rows?: Element[];
+}
+
+/**
+ * Picks the renderer for a document, see RenderMode
+ */
+function chooseRenderer(xmlDoc: Document, options: ConvertOptions): RenderDecision {
+  const mode = options.renderMode ?? 'auto';
+  const documentElement = xmlDoc.documentElement;
+
+  // Tree and raw output show the document exactly as it is
+  if (mode === 'tree' || mode === 'raw') {
+    return { renderer: mode, rootElement: documentElement, reasons: [`${mode === 'tree' ? 'Tree' : 'Raw'} mode was selected`] };
+  }
+
+  const reasons: string[] = [];
+  const rootElement = unwrapSoapEnvelope(documentElement);
+  if (rootElement !== documentElement) {
+    reasons.push(`The SOAP envelope was unwrapped to the <${rootElement.nodeName}> message in its body`);
+  }
+  const rootName = `<${rootElement.nodeName}>`;
+
+  if (mode === 'semantic') {
+    return { renderer: 'semantic', rootElement, reasons: [...reasons, 'Semantic mode was selected'] };
+  }
+
+  if (mode === 'table') {
+    reasons.push('Table mode was selected');
+    if (!options.tablePath?.trim() && isTableFormat(rootElement)) {
+      reasons.push(`The root element is ${rootName}, rendered with the row and cell table format`);
+      return { renderer: 'table-format', rootElement, reasons };
+    }
+
+    let detection = findTableRows(rootElement, options.tablePath, options.tableDetection);
+    if (!detection.isTable) {
+      // A path that matches nothing falls back to detecting the rows
+      const fallback = findTableRows(rootElement, undefined, options.tableDetection);
+      detection = { ...fallback, reasons: [...detection.reasons, ...fallback.reasons] };
+    }
+    return { renderer: 'table', rootElement, rows: detection.rows, reasons: [...reasons, ...detection.reasons] };
+  }
+
+  // Auto mode, detection goes by namespace URI so any prefix (or none) is recognised
+  if (isTableFormat(rootElement)) {
+    reasons.push(`The root element is ${rootName}, rendered with the row and cell table format`);
+    return { renderer: 'table-format', rootElement, reasons };
+  }
+  if (isNamed(rootElement, 'feed', [NS.atom, null])) {
+    reasons.push(`The root element ${rootName} is an Atom feed`);
+    return { renderer: 'atom', rootElement, reasons };
+  }
+  if (isRssElement(rootElement)) {
+    reasons.push(`The root element ${rootName} is an RSS feed`);
+    return { renderer: 'rss', rootElement, reasons };
+  }
+  if (isNamed(rootElement, 'svg', [NS.svg, null])) {
+    reasons.push(`The root element ${rootName} is an SVG image, passed through as is`);
+    return { renderer: 'svg', rootElement, reasons };
+  }
+
+  const detection = detectTable(rootElement, options.tableDetection);
+  if (detection.isTable) {
+    return { renderer: 'table', rootElement, rows: detection.rows, reasons: [...reasons, ...detection.reasons] };
+  }
+  return {
+    renderer: 'semantic',
+    rootElement,
+    reasons: [...reasons, ...detection.reasons, 'The children do not look like records, so semantic HTML is used'],
+  };
+}
+
+/**
+ * Explains which renderer convertXmlToHtml uses for a document and why
+ * @param xmlString The XML string to convert
+ * @param options The same options passed to convertXmlToHtml
+ */
+export function explainConversion(xmlString: string, options: ConvertOptions = {}): RenderExplanation {
+  const environment = options.environment ?? getXmlEnvironment();
+  const { renderer, reasons } = chooseRenderer(environment.parse(xmlString), options);
+  return { renderer, reasons };
+}
+
+/**
+ * Converts XML string to HTML
+ * @param xmlString The XML string to convert
+ * @param options Conversion options
+ * @returns HTML string representation
+ */
+export async function convertXmlToHtml(xmlString: string, options: ConvertOptions = {}): Promise<string> {
+  try {
+    const environment = options.environment ?? getXmlEnvironment();
+
+    // Parse the XML string, this throws on malformed input
+    const xmlDoc = environment.parse(xmlString);
+    options.onParsed?.(xmlDoc);
+    
+    // Create an HTML structure that directly renders the XML content
+    const { renderer, reasons, rootElement, rows = [] } = chooseRenderer(xmlDoc, options);
+    options.onExplained?.({ renderer, reasons });
+    let htmlContent = '';
+    
+    if (renderer === 'table-format') {
+      htmlContent = convertTableXmlToHtml(rootElement, options);
+    }
+    // For RSS/feed XML
+    else if (renderer === 'atom') {
+      htmlContent = convertAtomFeedToHtml(rootElement, options);
+    }
+    else if (renderer === 'rss') {
+      htmlContent = convertRssFeedToHtml(rootElement, options);
+    }
+    // For SVG files
+    else if (renderer === 'svg') {
+      // For SVG, we can directly pass it through once scripts are removed
+      if (!options.trustedHtml) {
+        stripActiveContent(rootElement, options.sanitize?.allowedSchemes);
+      }
+      return environment.serialize(rootElement);
+    }
+    else if (renderer === 'table') {
+      htmlContent = convertToHtmlTable(rows, options);
+    }
+    else if (renderer === 'tree') {
+      htmlContent = convertToTreeHtml(rootElement);
+    }
+    else if (renderer === 'raw') {
+      htmlContent = convertToRawHtml(formatXml(xmlString, environment));
+    }
+    // For general XML, create a styled representation
+    else {
+      htmlContent = convertToSemanticHtml(rootElement, options);
+    }
+    
+    // The script is only needed when a table was produced
+    if (options.interactiveTables && htmlContent.includes('data-interactive')) {
+      htmlContent += INTERACTIVE_TABLE_ASSETS;
+    }
+    
+    return htmlContent;
+  } catch (error) {
+    // Malformed input is reported to the caller, only log unexpected failures
+    if (!(error instanceof XmlParseError)) {
+      console.error("Error converting XML to HTML:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether an element is the root of the row and cell table format. Its
+ * elements share the namespace of <table>, whatever the prefix. A namespaced
+ * <table> needs rows of its own, so e.g. XHTML tables are detected as data.
+ */
+function isTableFormat(element: Element): boolean {
+  const namespace = element.namespaceURI || null;
+  if (!isNamed(element, 'table', [namespace])) return false;
+  return namespace === null || Array.from(element.children).some(child =>
+    ['row', 'tbody', 'header'].some(name => isNamed(child, name, [namespace])));
+}
+
+// Row children holding cell values, demo.xml uses <column> in rows as well
+const TABLE_CELL_TAGS = ['cell', 'column'];
+const TABLE_ALIGNMENTS = ['left', 'center', 'right', 'justify'];
+
+/**
+ * Converts a <cell> or <column> to a table cell, keeping valid spans and alignment
+ */
+function convertTableCell(cell: Element, tag: 'td' | 'th', options: ConvertOptions): string {
+  let attributes = sourceAttribute(cell, options);
+  ['colspan', 'rowspan'].forEach(name => {
+    const span = Number(cell.getAttribute(name));
+    if (Number.isInteger(span) && span > 1) {
+      attributes += ` ${name}="${span}"`;
+    }
+  });
+
+  const align = (cell.getAttribute('align') || '').toLowerCase();
+  if (TABLE_ALIGNMENTS.includes(align)) {
+    attributes += ` style="text-align: ${align}"`;
+  }
+
+  return `<${tag}${attributes}>${escapeHtml(cell.textContent || '')}</${tag}>`;
+}
+
+function convertTableRow(row: Element, cellTag: 'td' | 'th', options: ConvertOptions): string {
+  const cellNames = TABLE_CELL_TAGS.map(name => qname(row.namespaceURI, name));
+  const cells = findChildren(row, cellNames).map(cell => convertTableCell(cell, cellTag, options));
+  return `<tr${sourceAttribute(row, options)}>${cells.join('')}</tr>`;
+}
+
+/**
+ * Converts a <header> or <footer>, which holds either cells directly or one
+ * or more <row> elements
+ */
+function convertTableSection(
+  section: Element,
+  sectionTag: 'thead' | 'tfoot',
+  cellTag: 'td' | 'th',
+  options: ConvertOptions,
+): string {
+  const rows = findChildren(section, [qname(section.namespaceURI, 'row')]);
+  const html = rows.length > 0
+    ? rows.map(row => convertTableRow(row, cellTag, options)).join('')
+    : convertTableRow(section, cellTag, options);
+  return `<${sectionTag}>${html}</${sectionTag}>`;
+}
+
+/**
+ * Special converter for standard table XML format with caption, header,
+ * rows or <tbody> groups of rows, and footer totals
+ */
+function convertTableXmlToHtml(tableElement: Element, options: ConvertOptions): string {
+  const namespace = tableElement.namespaceURI || null;
+  let html = `
+    <div class="xml-table-container">
+      <style>
+        .xml-table-container { font-family: system-ui, sans-serif; }
+        .table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+        .table caption { caption-side: top; padding: 0.5rem 0; font-weight: 600; text-align: left; }
+        .table th, .table td { padding: 0.75rem; text-align: left; border: 1px solid #e2e8f0; }
+        .table th { font-weight: 600; background-color: #f8fafc; }
+        .table-responsive { overflow-x: auto; }
+        .table tbody tr:nth-child(even) { background-color: #f8fafc; }
+        .table tbody + tbody { border-top: 2px solid #cbd5e1; }
+        .table tfoot td { font-weight: 600; border-top: 2px solid #cbd5e1; }
+      </style>
+      <div class="table-responsive">
+        <table class="table"${options.interactiveTables ? ' data-interactive' : ''}${sourceAttribute(tableElement, options)}>
+  `;
+
+  const caption = findChildren(tableElement, [qname(namespace, 'caption')])[0];
+  if (caption) {
+    html += `<caption${sourceAttribute(caption, options)}>${escapeHtml(caption.textContent || '')}</caption>`;
+  }
+
+  const header = findChildren(tableElement, [qname(namespace, 'header')])[0];
+  if (header) {
+    html += convertTableSection(header, 'thead', 'th', options);
+  }
+
+  // Rows directly under <table> form one body, each <tbody> is its own group
+  let bodyRows: string[] = [];
+  const flushBody = () => {
+    if (bodyRows.length > 0) {
+      html += `<tbody>${bodyRows.join('')}</tbody>`;
+      bodyRows = [];
+    }
+  };
+
+  Array.from(tableElement.children).forEach(child => {
+    if (isNamed(child, 'row', [namespace])) {
+      bodyRows.push(convertTableRow(child, 'td', options));
+    } else if (isNamed(child, 'tbody', [namespace])) {
+      flushBody();
+      bodyRows = findChildren(child, [qname(namespace, 'row')]).map(row => convertTableRow(row, 'td', options));
+      flushBody();
+    }
+  });
+  flushBody();
+
+  const footer = findChildren(tableElement, [qname(namespace, 'footer')])[0];
+  if (footer) {
+    html += convertTableSection(footer, 'tfoot', 'td', options);
+  }
+
+  html += '</table></div></div>';
+  return html;
+}
+
+/**
+ * Shows the (formatted) XML source itself
+ */
+function convertToRawHtml(xmlString: string): string {
+  return `
+    <div class="xml-raw">
+      <style>
+        .xml-raw pre { font-family: ui-monospace, monospace; font-size: 0.875rem; background-color: #f8fafc; border: 1px solid #e2e8f0; border-radius: 0.25rem; padding: 1rem; overflow-x: auto; }
+      </style>
+      <pre><code>${escapeHtml(xmlString)}</code></pre>
+    </div>
+  `;
+}
+
+/**
+ * Name used for an XML attribute in the data-* attributes of semantic output
+ */
+function dataAttributeName(attr: Attr, prefixMode: PrefixMode = 'strip'): string {
+  return prefixMode === 'strip' ? localNameOf(attr) : attr.name.replace(':', '-');
+}
+
+/**
+ * Converts XML to semantic HTML
+ * @param element Element to convert
+ * @param options Conversion options, mapping rules are checked before the built-in mapping
+ * @param isRoot Whether to wrap the output in the styled container
+ */
+function convertToSemanticHtml(element: Element, options: ConvertOptions, isRoot = true): string {
+  const rules = options.mappingRules ?? [];
+  const tagName = localNameOf(element).toLowerCase();
+  const rule = findMappingRule(element, rules);
+  
+  // Map XML tags to appropriate HTML tags when possible
+  const tagMapping: Record<string, string> = {
+    'title': 'h1',
+    'subtitle': 'h2',
+    'header': 'header',
+    'footer': 'footer',
+    'section': 'section',
+    'paragraph': 'p',
+    'p': 'p',
+    'list': 'ul',
+    'item': 'li',
+    'link': 'a',
+    'image': 'img',
+    'img': 'img',
+    'table': 'table',
+    'row': 'tr',
+    'cell': 'td',
+    'heading': 'h3',
+    'content': 'div',
+    'div': 'div',
+    'span': 'span',
+    'article': 'article',
+    'nav': 'nav',
+    'button': 'button',
+    'input': 'input'
+  };
+  
+  let html = '';
+  
+  if (rule?.action === 'drop') {
+    // Dropped elements produce no output at all
+  } else if (rule?.action === 'unwrap') {
+    html += convertChildrenToSemanticHtml(element, options);
+  } else {
+    // Rule tags are validated by the schema, but rules may come from anywhere
+    const htmlTag = rule?.tag && isSafeTagName(rule.tag)
+      ? rule.tag.toLowerCase()
+      : tagMapping[tagName] || (hasMixedContent(element.parentNode) ? 'span' : 'div');
+    const renames = rule?.attributes ?? {};
+    const classes = [`xml-${tagName}`, ...(rule?.classes ?? [])];
+    
+    html += `<${htmlTag}`;
+    
+    // Add class for styling
+    html += ` class="${escapeHtml(classes.join(' '))}"`;
+    html += sourceAttribute(element, options);
+    
+    // Handle special tag conversions
+    if (htmlTag === 'a' && element.hasAttribute('href')) {
+      html += ` href="${escapeHtml(safeUrl(element.getAttribute('href') || ''))}"`;
+    } else if (htmlTag === 'img' && element.hasAttribute('src')) {
+      html += ` src="${escapeHtml(safeUrl(element.getAttribute('src') || ''))}" alt="${escapeHtml(element.getAttribute('alt') || '')}"`;
+    }
+    
+    // Add other attributes, namespace declarations are not data
+    Array.from(element.attributes).forEach(attr => {
+      if (isNamespaceDeclaration(attr)) return;
+      
+      const renamed = renames[attr.name];
+      if (renamed && isSafeAttributeName(renamed)) {
+        // Renamed attributes are written as-is, URLs still have to be safe
+        const value = isUrlAttribute(renamed) ? safeUrl(attr.value) : attr.value;
+        html += ` ${escapeHtml(renamed.toLowerCase())}="${escapeHtml(value)}"`;
+      } else if (attr.name !== 'href' && attr.name !== 'src') {
+        // Skip href and src as they're already handled above
+        html += ` data-${escapeHtml(dataAttributeName(attr, options.prefixMode))}="${escapeHtml(attr.value)}"`;
+      }
+    });
+    
+    html += '>';
+    html += convertChildrenToSemanticHtml(element, options);
+    html += `</${htmlTag}>`;
+  }
+  
+  // If this is the root element, add some styling
+  if (isRoot) {
+    return `
+      <div class="semantic-xml-content">
+        <style>
+          .semantic-xml-content { font-family: system-ui, sans-serif; line-height: 1.5; }
+          .xml-title, .xml-h1 { font-size: 2rem; font-weight: bold; margin-bottom: 1rem; }
+          .xml-subtitle, .xml-h2 { font-size: 1.5rem; font-weight: bold; margin-bottom: 0.75rem; }
+          .xml-heading, .xml-h3 { font-size: 1.25rem; font-weight: bold; margin-bottom: 0.5rem; }
+          .xml-paragraph, .xml-p { margin-bottom: 1rem; }
+          .xml-list { list-style-type: disc; padding-left: 1.5rem; margin-bottom: 1rem; }
+          .xml-item { margin-bottom: 0.5rem; }
+          .xml-link { color: #0077cc; text-decoration: underline; }
+          .xml-image { max-width: 100%; height: auto; }
+          .xml-section { margin-bottom: 2rem; padding: 1rem; border: 1px solid #e2e8f0; border-radius: 0.25rem; }
+          .xml-content, .xml-div { margin-bottom: 1rem; }
+          .xml-article { border-bottom: 1px solid #e2e8f0; padding-bottom: 1rem; margin-bottom: 1rem; }
+          .xml-button { padding: 0.5rem 1rem; background-color: #f1f5f9; border: 1px solid #94a3b8; border-radius: 0.25rem; }
+          ${ANNOTATION_STYLES}
+        </style>
+        ${html}
+      </div>
+    `;
+  }
+  
+  return html;
+}
+
+/**
+ * Whether a node holds text next to its child elements, as in
+ * <p>Hello <b>world</b></p>. Unmapped elements in there are inline.
+ */
+function hasMixedContent(node: Node | null): boolean {
+  if (!node || node.nodeType !== ELEMENT_NODE) return false;
+  return Array.from(node.childNodes).some(child =>
+    (child.nodeType === TEXT_NODE || child.nodeType === CDATA_SECTION_NODE) && (child.nodeValue || '').trim() !== '');
+}
+
+/**
+ * Converts the child nodes of an element in document order. Text is kept as
+ * it is, so mixed content reads the same as in the source.
+ * @param convertElement Converts a child element
+ */
+function convertChildNodes(
+  element: Element,
+  options: ConvertOptions,
+  convertElement: (child: Element) => string,
+): string {
+  return Array.from(element.childNodes)
+    .map(child => {
+      switch (child.nodeType) {
+        case ELEMENT_NODE:
+          return convertElement(child as Element);
+        case TEXT_NODE:
+          return escapeHtml(child.nodeValue || '');
+        case CDATA_SECTION_NODE: {
+          const text = child.nodeValue || '';
+          if (options.cdataMode !== 'html') return escapeHtml(text);
+          return options.trustedHtml ? text : sanitizeHtml(text, options.sanitize);
+        }
+        case COMMENT_NODE:
+          return renderComment(child.nodeValue || '', options.commentMode);
+        case PROCESSING_INSTRUCTION_NODE:
+          return renderProcessingInstruction(child as ProcessingInstruction, options.commentMode);
+        default:
+          return '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Converts the content of an element to semantic HTML
+ */
+function convertChildrenToSemanticHtml(element: Element, options: ConvertOptions): string {
+  return convertChildNodes(element, options, child => convertToSemanticHtml(child, options, false));
+}
+
+// Function to convert XML element to HTML element
+function processXmlNode(node: Element, options: ConvertOptions = {}): string {
+  const tagName = node.tagName.toLowerCase();
+  
+  // Map XML elements to appropriate HTML elements (can be customized)
+  const htmlTagMap: Record<string, string> = {
+    // Default mapping preserves original tag names
+  };
+  
+  // Choose HTML tag
+  const htmlTag = htmlTagMap[tagName] || tagName;
+  
+  // Start tag
+  let html = `<${htmlTag}`;
+  
+  // Add attributes
+  Array.from(node.attributes).forEach(attr => {
+    html += ` ${escapeHtml(attr.name)}="${escapeHtml(attr.value)}"`;
+  });
+  
+  html += '>';
+  
+  // Process children
+  html += convertChildNodes(node, options, child => processXmlNode(child, options));
+  
+  // Close tag
+  html += `</${htmlTag}>`;
+  
+  return html;
+}
+
+/**
+ * Wraps converted HTML in a standalone document. The preview renders this
+ * exact document, so it matches the downloaded file.
+ * @param bodyHtml HTML returned by convertXmlToHtml or transformXmlToHtml
+ * @param title Document title
+ * @returns Complete HTML document
+ */
+export function createHtmlDocument(bodyHtml: string, title = 'Converted XML'): string {
+  // XSLT stylesheets usually produce a complete document already
+  if (/^\s*<!DOCTYPE html/i.test(bodyHtml)) {
+    return bodyHtml;
+  }
+  if (/^\s*<html[\s>]/i.test(bodyHtml)) {
+    return `<!DOCTYPE html>\n${bodyHtml.trim()}\n`;
+  }
+  
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body>
+${bodyHtml}
+</body>
+</html>
+`;
+}
+
+/**
+ * Formats XML string to be properly indented
+ * @param xmlString XML string to format
+ * @param environment Parser/serializer to use, defaults to the registered environment
+ * @returns Formatted XML string
+ */
+export function formatXml(xmlString: string, environment: XmlEnvironment = getXmlEnvironment()): string {
+  if (!xmlString.trim()) return "";
+  
+  try {
+    // Parse the XML, this throws on malformed input
+    const xmlDoc = environment.parse(xmlString);
+    
+    // Serialize with proper formatting
+    let formatted = environment.serialize(xmlDoc);
+    
+    // Use js-beautify for better formatting
+    return formatCode(formatted, 'xml');
+  } catch (error) {
+    console.error("Error formatting XML:", error);
+    // Return original string if formatting fails
+    return xmlString;
+  }
+}
+
+/**
+ * Formats HTML string to be properly indented
+ * @param htmlString HTML string to format
+ * @returns Formatted HTML string
+ */
+export function formatHtml(htmlString: string): string {
+  if (!htmlString.trim()) return "";
+  
+  try {
+    return formatCode(htmlString, 'html');
+  } catch (error) {
+    console.error("Error formatting HTML:", error);
+    return htmlString;
+  }
+}
+
+/**
+ * Generic code formatter using js-beautify
+ */
+function formatCode(code: string, type: 'html' | 'xml'): string {
+  const options = {
+    indent_size: 2,
+    indent_with_tabs: false,
+    max_preserve_newlines: 2,
+    preserve_newlines: true,
+    wrap_line_length: 120,
+    end_with_newline: true,
+    indent_inner_html: true,
+  };
+  
+  return beautifyHtml(code, options);
+}
@@ -0,0 +1,82 @@
+/**
+ * Pluggable XML parser/serializer used by the converter
+ *
+ * Browsers use the native DOMParser and XMLSerializer. Node, tests and web
+ * workers have neither, so they register the xmldom environment instead.
+ */
+
+import { fromParserErrorText } from "./xml-errors";
+
+export interface XmlEnvironment {
+  /** Parses an XML string, throwing an XmlParseError if it is not well-formed */
+  parse(xmlString: string): Document;
+  /** Serializes a node back to markup */
+  serialize(node: Node): string;
+  /**
+   * Applies an XSLT 1.0 stylesheet and returns the serialized result. Left
+   * out by environments without an XSLT engine.
+   */
+  transform?(xmlString: string, stylesheet: string): Promise<string>;
+}
+
+/**
+ * Environment backed by the browser's native DOM
+ */
+export const browserEnvironment: XmlEnvironment = {
+  parse(xmlString) {
+    const parser = new DOMParser();
+    const xmlDoc = parser.parseFromString(xmlString, "text/xml");
+
+    // Browsers report errors as a <parsererror> element instead of throwing
+    const parserError = xmlDoc.getElementsByTagName("parsererror")[0];
+    if (parserError) {
+      throw fromParserErrorText(parserError.textContent || "", xmlString);
+    }
+
+    return xmlDoc;
+  },
+
+  serialize(node) {
+    return new XMLSerializer().serializeToString(node);
+  },
+
+  async transform(xmlString, stylesheet) {
+    const processor = new XSLTProcessor();
+    processor.importStylesheet(this.parse(stylesheet));
+
+    const result = processor.transformToDocument(this.parse(xmlString));
+    if (!result?.documentElement) {
+      throw new Error("The XSLT stylesheet produced no output");
+    }
+
+    // HTML output is serialized as HTML, anything else as XML
+    return result instanceof HTMLDocument
+      ? result.documentElement.outerHTML
+      : this.serialize(result);
+  },
+};
+
+let registeredEnvironment: XmlEnvironment | undefined;
+
+/**
+ * Sets the environment used when a conversion does not pass its own
+ */
+export function setXmlEnvironment(environment: XmlEnvironment): void {
+  registeredEnvironment = environment;
+}
+
+/**
+ * Returns the registered environment, falling back to the native DOM when
+ * running in a browser
+ */
+export function getXmlEnvironment(): XmlEnvironment {
+  if (registeredEnvironment) {
+    return registeredEnvironment;
+  }
+
+  if (typeof DOMParser !== "undefined" && typeof XMLSerializer !== "undefined") {
+    return browserEnvironment;
+  }
+
+  throw new Error("No XML environment registered. Call setXmlEnvironment() first.");
+}
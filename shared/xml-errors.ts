@@ -0,0 +1,123 @@
+/**
+ * Errors raised while parsing XML
+ */
+
+// Lines of context shown above the failing line in an excerpt
+const EXCERPT_CONTEXT_LINES = 2;
+// Longer lines (e.g. minified feeds) are clipped around the error column
+const EXCERPT_MAX_WIDTH = 100;
+
+export interface XmlParseErrorDetails {
+  message: string;
+  /** 1-based line of the error, 0 when the parser did not report one */
+  line: number;
+  /** 1-based column of the error, 0 when the parser did not report one */
+  column: number;
+  /** Source lines around the error with a caret under the column */
+  excerpt: string;
+}
+
+/**
+ * Thrown when XML is not well-formed, with the location reported by the parser
+ */
+export class XmlParseError extends Error {
+  readonly line: number;
+  readonly column: number;
+  readonly excerpt: string;
+
+  constructor(message: string, source: string, line = 0, column = 0) {
+    super(message);
+    this.name = "XmlParseError";
+    this.line = line;
+    this.column = column;
+    this.excerpt = line > 0 ? createExcerpt(source, line, column) : "";
+  }
+
+  toJSON(): XmlParseErrorDetails {
+    return {
+      message: this.message,
+      line: this.line,
+      column: this.column,
+      excerpt: this.excerpt,
+    };
+  }
+
+  /**
+   * Rebuilds an error passed as details, e.g. from a worker, when the
+   * source it points into is not at hand
+   */
+  static fromJSON(details: XmlParseErrorDetails): XmlParseError {
+    const error = new XmlParseError(details.message, "", details.line, details.column);
+    (error as { excerpt: string }).excerpt = details.excerpt;
+    return error;
+  }
+}
+
+/**
+ * Clips a line to the excerpt width, keeping the given column visible
+ * @returns The clipped text and how many characters the column moved left
+ */
+function clipLine(text: string, column: number): { text: string; shift: number } {
+  if (text.length <= EXCERPT_MAX_WIDTH) {
+    return { text, shift: 0 };
+  }
+
+  const start = Math.max(0, Math.min(column - 1 - EXCERPT_MAX_WIDTH / 2, text.length - EXCERPT_MAX_WIDTH));
+  const prefix = start > 0 ? "…" : "";
+  const suffix = start + EXCERPT_MAX_WIDTH < text.length ? "…" : "";
+
+  return {
+    text: prefix + text.slice(start, start + EXCERPT_MAX_WIDTH) + suffix,
+    shift: start - prefix.length,
+  };
+}
+
+/**
+ * Builds a source excerpt pointing at a line and column, e.g.
+ *
+ *     2 |   <row>
+ *   > 3 |     <cell>42</cel>
+ *       |              ^
+ */
+export function createExcerpt(source: string, line: number, column: number): string {
+  const lines = source.split(/\r\n|\r|\n/);
+  if (line < 1 || line > lines.length) return "";
+
+  const firstLine = Math.max(1, line - EXCERPT_CONTEXT_LINES);
+  const gutterWidth = String(line).length;
+  const output: string[] = [];
+
+  for (let lineNumber = firstLine; lineNumber <= line; lineNumber++) {
+    // Tabs would throw off the caret alignment
+    const { text, shift } = clipLine(lines[lineNumber - 1].replace(/\t/g, " "), Math.max(column, 1));
+    const marker = lineNumber === line ? ">" : " ";
+    output.push(`${marker} ${String(lineNumber).padStart(gutterWidth)} | ${text}`);
+
+    if (lineNumber === line && column > 0) {
+      output.push(`  ${" ".repeat(gutterWidth)} | ${" ".repeat(Math.max(0, column - 1 - shift))}^`);
+    }
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Extracts the message and location from a browser <parsererror> element.
+ * Chrome and Safari report "error on line 3 at column 14: ...", Firefox
+ * reports "XML Parsing Error: ..." followed by "Line Number 3, Column 14".
+ */
+export function fromParserErrorText(text: string, source: string): XmlParseError {
+  const webkit = text.match(/error on line (\d+) at column (\d+):\s*([^\n]*)/);
+  if (webkit) {
+    return new XmlParseError(webkit[3].trim(), source, Number(webkit[1]), Number(webkit[2]));
+  }
+
+  const gecko = text.match(/Line Number (\d+), Column (\d+)/);
+  const geckoMessage = text.match(/XML Parsing Error:\s*([^\n]*)/);
+  if (gecko) {
+    const message = geckoMessage?.[1].trim() || "Invalid XML format";
+    return new XmlParseError(message, source, Number(gecko[1]), Number(gecko[2]));
+  }
+
+  return new XmlParseError("Invalid XML format", source);
+}
@@ -0,0 +1,115 @@
+/**
+ * Namespace-aware element names
+ *
+ * Elements are identified by namespace URI and local name, never by the
+ * prefix the document happens to use, so <atom:feed> and <feed
+ * xmlns="http://www.w3.org/2005/Atom"> are the same element. Names are
+ * written in Clark notation, "{uri}local", and elements without a namespace
+ * by their plain local name.
+ */
+
+// Namespaces the converter recognises
+export const NS = {
+  atom: "http://www.w3.org/2005/Atom",
+  rss1: "http://purl.org/rss/1.0/",
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  dc: "http://purl.org/dc/elements/1.1/",
+  content: "http://purl.org/rss/1.0/modules/content/",
+  media: "http://search.yahoo.com/mrss/",
+  itunes: "http://www.itunes.com/dtds/podcast-1.0.dtd",
+  soap11: "http://schemas.xmlsoap.org/soap/envelope/",
+  soap12: "http://www.w3.org/2003/05/soap-envelope",
+  svg: "http://www.w3.org/2000/svg",
+  xhtml: "http://www.w3.org/1999/xhtml",
+  xml: "http://www.w3.org/XML/1998/namespace",
+  xmlns: "http://www.w3.org/2000/xmlns/",
+} as const;
+
+export const DEFAULT_NAMESPACE_LABELS: Record<string, string> = {
+  [NS.atom]: "Atom",
+  [NS.rss1]: "RSS",
+  [NS.rdf]: "RDF",
+  [NS.dc]: "Dublin Core",
+  [NS.content]: "Content",
+  [NS.media]: "Media",
+  [NS.itunes]: "iTunes",
+  [NS.soap11]: "SOAP",
+  [NS.soap12]: "SOAP",
+  [NS.svg]: "SVG",
+  [NS.xhtml]: "XHTML",
+  [NS.xml]: "XML",
+};
+
+/**
+ * How prefixed names are shown in the output:
+ * strip drops the prefix, keep shows it as written and label replaces it with
+ * a friendly name for the namespace
+ */
+export type PrefixMode = "strip" | "keep" | "label";
+
+export const PREFIX_MODES: PrefixMode[] = ["strip", "keep", "label"];
+
+/**
+ * Builds a namespace-qualified name in Clark notation
+ */
+export function qname(namespaceUri: string | null, localName: string): string {
+  return namespaceUri ? `{${namespaceUri}}${localName}` : localName;
+}
+
+/**
+ * Local part of an element or attribute name, without the prefix
+ */
+export function localNameOf(node: Element | Attr): string {
+  const name = node.localName || node.nodeName;
+  return name.slice(name.indexOf(":") + 1);
+}
+
+/**
+ * Namespace-qualified name of an element or attribute, see qname
+ */
+export function expandedName(node: Element | Attr): string {
+  return qname(node.namespaceURI, localNameOf(node));
+}
+
+/**
+ * Checks an element's local name (case-insensitively) and namespace
+ * @param namespaces Accepted namespace URIs, null accepts elements without a namespace
+ */
+export function isNamed(element: Element, localName: string, namespaces: (string | null)[] = [null]): boolean {
+  return localNameOf(element).toLowerCase() === localName.toLowerCase()
+    && namespaces.includes(element.namespaceURI || null);
+}
+
+/**
+ * Whether an attribute declares a namespace rather than carrying data
+ */
+export function isNamespaceDeclaration(attr: Attr): boolean {
+  return attr.namespaceURI === NS.xmlns || attr.name === "xmlns" || attr.name.startsWith("xmlns:");
+}
+
+/**
+ * Attributes that carry data, namespace declarations excluded
+ */
+export function dataAttributes(element: Element): Attr[] {
+  return Array.from(element.attributes).filter((attr) => !isNamespaceDeclaration(attr));
+}
+
+/**
+ * Name of an element or attribute as shown to the reader, e.g. in table headers
+ * @param mode How the prefix is shown
+ * @param labels Friendly names by namespace URI, merged over the defaults
+ */
+export function displayName(
+  node: Element | Attr,
+  mode: PrefixMode = "strip",
+  labels: Record<string, string> = {},
+): string {
+  if (mode === "keep") return node.nodeName;
+
+  const localName = localNameOf(node);
+  const label = node.namespaceURI
+    ? labels[node.namespaceURI] ?? DEFAULT_NAMESPACE_LABELS[node.namespaceURI]
+    : undefined;
+  return mode === "label" && label ? `${label}: ${localName}` : localName;
+}
+
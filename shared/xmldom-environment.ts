@@ -0,0 +1,85 @@
+/**
+ * XML environment backed by xmldom, a pure-JS DOM for Node and web workers
+ */
+
+import { DOMParser, XMLSerializer, ParseError, type Node as XmldomNode } from "@xmldom/xmldom";
+import { Xslt, XmlParser } from "xslt-processor";
+import type { XmlEnvironment } from "./xml-environment";
+import { XmlParseError } from "./xml-errors";
+
+interface ReportedError {
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Adds an XML declaration when there is none. xslt-processor rejects a
+ * document starting with a processing instruction such as
+ * <?xml-stylesheet?> unless a declaration comes first.
+ */
+function withXmlDeclaration(xmlString: string): string {
+  const source = xmlString.replace(/^\uFEFF/, "");
+  return /^<\?xml\s/.test(source) ? source : `<?xml version="1.0"?>\n${source}`;
+}
+
+export const xmldomEnvironment: XmlEnvironment = {
+  parse(xmlString) {
+    let firstError: ReportedError | undefined;
+
+    // Stop on any well-formedness error, not just fatal ones, to match
+    // browsers. xmldom wraps whatever onError throws, so keep the original
+    // message and location aside.
+    const parser = new DOMParser({
+      onError(level, message, context) {
+        if (level === "warning") return;
+
+        const locator = context?.locator;
+        firstError ??= {
+          message,
+          line: locator?.lineNumber,
+          column: locator?.columnNumber,
+        };
+        throw new ParseError(message, locator);
+      },
+    });
+
+    try {
+      return parser.parseFromString(xmlString, "text/xml") as unknown as Document;
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+
+      const reported: ReportedError = firstError ?? {
+        message: error.message,
+        line: error.locator?.lineNumber,
+        column: error.locator?.columnNumber,
+      };
+
+      // The locator is not updated at the end of the input, so point at it
+      if (reported.message === "unexpected end of input") {
+        const lines = xmlString.split(/\r\n|\r|\n/);
+        reported.line = lines.length;
+        reported.column = lines[lines.length - 1].length + 1;
+      }
+
+      throw new XmlParseError(reported.message, xmlString, reported.line, reported.column);
+    }
+  },
+
+  serialize(node) {
+    return new XMLSerializer().serializeToString(node as unknown as XmldomNode);
+  },
+
+  async transform(xmlString, stylesheet) {
+    // xslt-processor has its own DOM, so check well-formedness with xmldom
+    // first to get the same errors as everywhere else
+    this.parse(xmlString);
+    this.parse(stylesheet);
+
+    const parser = new XmlParser();
+    return new Xslt().xsltProcess(
+      parser.xmlParse(withXmlDeclaration(xmlString)),
+      parser.xmlParse(withXmlDeclaration(stylesheet)),
+    );
+  },
+};
@@ -0,0 +1,147 @@
+/**
+ * XSLT 1.0 transformation mode
+ *
+ * Instead of the converter's heuristics, the document is rendered by an XSLT
+ * stylesheet, either supplied directly or referenced from the document with
+ * an <?xml-stylesheet?> processing instruction.
+ */
+
+import { getXmlEnvironment, type XmlEnvironment } from "./xml-environment";
+import { XmlParseError } from "./xml-errors";
+import { stripActiveHtml } from "./html-sanitizer";
+import { ELEMENT_NODE, PROCESSING_INSTRUCTION_NODE } from "./dom-utils";
+
+// Stylesheet types that name XSLT, <?xml-stylesheet?> is also used for CSS
+const XSLT_TYPES = ["text/xsl", "application/xslt+xml", "text/xml", "application/xml"];
+
+/**
+ * Raised when no usable stylesheet is available or the transform fails
+ */
+export class XsltError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XsltError";
+  }
+}
+
+export interface XsltOptions {
+  /** Stylesheet source, defaults to the one referenced by the document */
+  stylesheet?: string;
+  /** Loads a stylesheet referenced by the document, e.g. from disk or over HTTP */
+  resolveStylesheet?: (href: string) => Promise<string>;
+  /** Parser/serializer/XSLT engine to use, defaults to the registered environment */
+  environment?: XmlEnvironment;
+  /** Pass the stylesheet output through without removing scripts */
+  trustedHtml?: boolean;
+}
+
+/**
+ * Returns the href of the document's XSLT <?xml-stylesheet?> instruction
+ */
+export function findStylesheetHref(xmlDoc: Document): string | undefined {
+  for (const node of Array.from(xmlDoc.childNodes)) {
+    if (node.nodeType !== PROCESSING_INSTRUCTION_NODE) continue;
+
+    const instruction = node as ProcessingInstruction;
+    if (instruction.target !== "xml-stylesheet") continue;
+
+    // The instruction's data uses attribute syntax: type="text/xsl" href="style.xsl"
+    const pseudoAttributes = Object.fromEntries(
+      Array.from(instruction.data.matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g), (match) => [
+        match[1],
+        match[2] ?? match[3],
+      ]),
+    );
+
+    const type = pseudoAttributes.type?.toLowerCase();
+    if (pseudoAttributes.href && (!type || XSLT_TYPES.includes(type))) {
+      return pseudoAttributes.href;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds an element by its id attribute, used for stylesheets embedded in the
+ * document and referenced as href="#id"
+ */
+function findElementById(element: Element, id: string): Element | undefined {
+  if (element.getAttribute("id") === id) return element;
+
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType !== ELEMENT_NODE) continue;
+    const match = findElementById(child as Element, id);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+async function resolveStylesheet(
+  xmlDoc: Document,
+  options: XsltOptions,
+  environment: XmlEnvironment,
+): Promise<string> {
+  if (options.stylesheet?.trim()) {
+    return options.stylesheet;
+  }
+
+  const href = findStylesheetHref(xmlDoc);
+  if (!href) {
+    throw new XsltError("No XSLT stylesheet given and the document has no <?xml-stylesheet?> instruction");
+  }
+
+  if (href.startsWith("#")) {
+    const embedded = findElementById(xmlDoc.documentElement, href.slice(1));
+    if (!embedded) {
+      throw new XsltError(`The embedded stylesheet "${href}" was not found in the document`);
+    }
+    return environment.serialize(embedded);
+  }
+
+  if (!options.resolveStylesheet) {
+    throw new XsltError(`The document references the stylesheet "${href}", please supply it`);
+  }
+
+  try {
+    return await options.resolveStylesheet(href);
+  } catch (error) {
+    const reason = error instanceof Error ? `: ${error.message}` : "";
+    throw new XsltError(`Could not load the stylesheet "${href}"${reason}`);
+  }
+}
+
+/**
+ * Transforms XML to HTML with an XSLT 1.0 stylesheet
+ * @param xmlString The XML string to transform
+ * @param options Stylesheet and environment options
+ * @returns The stylesheet output, ready for formatHtml and createHtmlDocument
+ */
+export async function transformXmlToHtml(xmlString: string, options: XsltOptions = {}): Promise<string> {
+  const environment = options.environment ?? getXmlEnvironment();
+  if (!environment.transform) {
+    throw new XsltError("XSLT is not supported in this environment");
+  }
+
+  const xmlDoc = environment.parse(xmlString);
+  const stylesheet = await resolveStylesheet(xmlDoc, options, environment);
+
+  // Report stylesheet syntax errors against the stylesheet, not the document
+  try {
+    environment.parse(stylesheet);
+  } catch (error) {
+    if (error instanceof XmlParseError) {
+      throw new XmlParseError(`XSLT stylesheet: ${error.message}`, stylesheet, error.line, error.column);
+    }
+    throw error;
+  }
+
+  let output: string;
+  try {
+    output = await environment.transform(xmlString, stylesheet);
+  } catch (error) {
+    if (error instanceof XmlParseError) throw error;
+    throw new XsltError(`XSLT transformation failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return options.trustedHtml ? output : stripActiveHtml(output);
+}